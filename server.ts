@@ -0,0 +1,69 @@
+// First, so server modules that read process.env at load (e.g. PIPER_MODEL) see .env
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { apiRouter, CHIME_DIR } from './server/routes';
+import { broadcast, getLeaderId } from './server/events';
+import { saveBellLogEntry } from './server/db';
+import { startScheduler } from './server/scheduler';
+import { describeGroup, describeItem } from './src/utils/bells';
+import { createLogEntry, createMissedEntry } from './src/utils/bellLog';
+import { getLateness } from './src/utils/missedBells';
+import { toSchoolTime } from './src/utils/clock';
+import { RingEvent } from './src/types';
+
+async function startServer() {
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+
+  app.use(express.json({ limit: '5mb' }));
+  app.use('/api', apiRouter);
+  app.use('/chimes', express.static(CHIME_DIR));
+
+  startScheduler((group, firedAt, timeZone) => {
+    // Logged before broadcasting so there is a record even if no browser plays it
+    const stationId = getLeaderId();
+    const entries = group.items.map(item => ({ ...createLogEntry(item, group.kind, 'auto', firedAt, timeZone), stationId }));
+    entries.forEach(entry => {
+      if (!stationId) entry.errors.push('No bell station connected to play the bell');
+      saveBellLogEntry(entry);
+    });
+
+    const event: RingEvent = {
+      items: group.items,
+      kind: group.kind,
+      time: group.time,
+      firedAt: firedAt.toISOString(),
+      logIds: entries.map(entry => entry.id),
+    };
+    console.log(`Ring ${group.time} [${group.kind}] - ${describeGroup(group)}`);
+    broadcast('ring', event);
+  }, ({ item, kind, time }, detectedAt, timeZone) => {
+    const lateness = getLateness(time, toSchoolTime(detectedAt, timeZone));
+    const entry = createMissedEntry(item, kind, detectedAt, timeZone, `Missed: detected ${lateness} min late`);
+    saveBellLogEntry(entry);
+    console.log(`Missed ${time} [${kind}] - ${describeItem(item)}`);
+    broadcast('missed', entry);
+  });
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Bell server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { AppUser } from '../src/types';
+import { Permission, hasPermission } from '../src/utils/roles';
+import * as db from './db';
+
+const SESSION_DAYS = 30;
+
+export function hashPassword(password: string, salt = crypto.randomBytes(16).toString('hex')) {
+  return { salt, hash: crypto.scryptSync(password, salt, 64).toString('hex') };
+}
+
+export function verifyPassword(password: string, user: db.StoredUser): boolean {
+  const { hash } = hashPassword(password, user.salt);
+  return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.hash, 'hex'));
+}
+
+export const toPublicUser = ({ id, username, role }: AppUser): AppUser => ({ id, username, role });
+
+export function findUserByName(username: string): db.StoredUser | undefined {
+  return db.getUsers().find(user => user.username.toLowerCase() === username.trim().toLowerCase());
+}
+
+export function createSession(user: AppUser): string {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  db.saveSession(token, user.id, expiresAt);
+  return token;
+}
+
+export const getToken = (req: Request) => req.headers.authorization?.match(/^Bearer (\w+)$/)?.[1] ?? null;
+
+// Attaches the signed-in user, if any, as res.locals.user. A missing or expired
+// token is not an error here: reading the schedule needs no account.
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = getToken(req);
+  const userId = token ? db.getSessionUserId(token, new Date().toISOString()) : null;
+  const user = userId ? db.getUsers().find(u => u.id === userId) : undefined;
+  res.locals.user = user ? toPublicUser(user) : null;
+  next();
+}
+
+export function requirePermission(permission: Permission) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const user = res.locals.user as AppUser | null;
+    if (hasPermission(user?.role, permission)) {
+      next();
+      return;
+    }
+    res.status(user ? 403 : 401).json({ error: user ? `Role ${user.role} may not ${permission}` : 'Sign in required' });
+  };
+}
@@ -0,0 +1,146 @@
+import Database from 'better-sqlite3';
+import { AppSettings, AppUser, BellLogEntry, CalendarEntry, ScheduleProfile } from '../src/types';
+import { DEFAULT_PROFILES, DEFAULT_SETTINGS, mergeSettings } from '../src/defaults';
+import { normalizeProfile } from '../src/utils/profiles';
+import { FiredState } from '../src/utils/missedBells';
+
+// Each row stores the same JSON document the browser keeps in localStorage,
+// so the client and server share one shape without a column-per-field schema.
+const db = new Database(process.env.BELL_DB_PATH || 'bell.db');
+db.pragma('journal_mode = WAL');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS profiles (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS settings (id INTEGER PRIMARY KEY CHECK (id = 1), data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS calendar (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS bell_log (id TEXT PRIMARY KEY, fired_at TEXT NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX IF NOT EXISTS bell_log_fired_at ON bell_log (fired_at);
+  CREATE TABLE IF NOT EXISTS fired_state (id INTEGER PRIMARY KEY CHECK (id = 1), data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS users (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS sessions (token TEXT PRIMARY KEY, user_id TEXT NOT NULL, expires_at TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS station_keys (id TEXT PRIMARY KEY, hash TEXT NOT NULL);
+`);
+
+const upsertProfile = db.prepare('INSERT INTO profiles (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data');
+const upsertSettings = db.prepare('INSERT INTO settings (id, data) VALUES (1, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data');
+const upsertCalendar = db.prepare('INSERT INTO calendar (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data');
+const upsertLog = db.prepare('INSERT INTO bell_log (id, fired_at, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data');
+
+if ((db.prepare('SELECT COUNT(*) AS count FROM profiles').get() as { count: number }).count === 0) {
+  DEFAULT_PROFILES.forEach(profile => upsertProfile.run(profile.id, JSON.stringify(profile)));
+}
+
+export function getProfiles(): ScheduleProfile[] {
+  const rows = db.prepare('SELECT data FROM profiles').all() as { data: string }[];
+  return rows
+    .map(row => normalizeProfile(JSON.parse(row.data)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function saveProfile(profile: ScheduleProfile) {
+  upsertProfile.run(profile.id, JSON.stringify(normalizeProfile(profile)));
+}
+
+export function deleteProfile(id: string) {
+  db.prepare('DELETE FROM profiles WHERE id = ?').run(id);
+}
+
+export function getSettings(): AppSettings {
+  const row = db.prepare('SELECT data FROM settings WHERE id = 1').get() as { data: string } | undefined;
+  return row ? mergeSettings(JSON.parse(row.data)) : DEFAULT_SETTINGS;
+}
+
+export function saveSettings(settings: AppSettings) {
+  upsertSettings.run(JSON.stringify(settings));
+}
+
+export function getCalendar(): CalendarEntry[] {
+  const rows = db.prepare('SELECT data FROM calendar').all() as { data: string }[];
+  return rows
+    .map(row => JSON.parse(row.data) as CalendarEntry)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+export function saveCalendarEntry(entry: CalendarEntry) {
+  upsertCalendar.run(entry.id, JSON.stringify(entry));
+}
+
+export function deleteCalendarEntry(id: string) {
+  db.prepare('DELETE FROM calendar WHERE id = ?').run(id);
+}
+
+// `from` and `to` are ISO timestamps; newest entries first.
+export function getBellLog(from: string, to: string): BellLogEntry[] {
+  const rows = db.prepare('SELECT data FROM bell_log WHERE fired_at BETWEEN ? AND ? ORDER BY fired_at DESC')
+    .all(from, to) as { data: string }[];
+  return rows.map(row => JSON.parse(row.data));
+}
+
+export function getBellLogEntry(id: string): BellLogEntry | null {
+  const row = db.prepare('SELECT data FROM bell_log WHERE id = ?').get(id) as { data: string } | undefined;
+  return row ? JSON.parse(row.data) : null;
+}
+
+// The original fire time is kept when a client later fills in the outcome.
+export function saveBellLogEntry(entry: BellLogEntry) {
+  upsertLog.run(entry.id, entry.firedAt, JSON.stringify(entry));
+}
+
+// Survives restarts so bells due while the server was down are detected as missed.
+export function getFiredState(): FiredState | null {
+  const row = db.prepare('SELECT data FROM fired_state WHERE id = 1').get() as { data: string } | undefined;
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function saveFiredState(state: FiredState) {
+  db.prepare('INSERT INTO fired_state (id, data) VALUES (1, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data')
+    .run(JSON.stringify(state));
+}
+
+// Password hashes never leave the server; see server/auth.ts.
+export interface StoredUser extends AppUser {
+  salt: string;
+  hash: string;
+}
+
+export function getUsers(): StoredUser[] {
+  const rows = db.prepare('SELECT data FROM users').all() as { data: string }[];
+  return rows
+    .map(row => JSON.parse(row.data) as StoredUser)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export function saveUser(user: StoredUser) {
+  db.prepare('INSERT INTO users (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data')
+    .run(user.id, JSON.stringify(user));
+}
+
+export function deleteUser(id: string) {
+  db.prepare('DELETE FROM users WHERE id = ?').run(id);
+  db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+}
+
+export function saveSession(token: string, userId: string, expiresAt: string) {
+  db.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)').run(token, userId, expiresAt);
+}
+
+// Expired sessions are cleared on the way, so the table doesn't grow forever.
+export function getSessionUserId(token: string, now: string): string | null {
+  db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(now);
+  const row = db.prepare('SELECT user_id FROM sessions WHERE token = ?').get(token) as { user_id: string } | undefined;
+  return row?.user_id ?? null;
+}
+
+export function deleteSession(token: string) {
+  db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+}
+
+// SHA-256 of each station's key; see server/events.ts.
+export function getStationKeyHash(id: string): string | null {
+  const row = db.prepare('SELECT hash FROM station_keys WHERE id = ?').get(id) as { hash: string } | undefined;
+  return row?.hash ?? null;
+}
+
+export function saveStationKeyHash(id: string, hash: string) {
+  db.prepare('INSERT INTO station_keys (id, hash) VALUES (?, ?) ON CONFLICT(id) DO NOTHING').run(id, hash);
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Station, StationsEvent } from '../src/types';
+import { electLeader, uniqueStations } from '../src/utils/stations';
+import { getSettings, getStationKeyHash, saveStationKeyHash } from './db';
+
+// Connections without a station (e.g. an old tab) still receive events but never play.
+const clients = new Map<Response, Station | null>();
+
+// Proxies and browsers drop idle streams; a comment line keeps them open.
+setInterval(() => {
+  clients.forEach((_station, res) => res.write(': ping\n\n'));
+}, 25000);
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest();
+
+// Station ids are public (every console sees them), so the id alone proves nothing.
+// The first key presented for an id is bound to it; later connections and requests
+// claiming that id must present the same key.
+const isStationKey = (id: string, key: unknown) => {
+  const stored = getStationKeyHash(id);
+  return typeof key === 'string' && key.length > 0 && stored !== null
+    && crypto.timingSafeEqual(hashKey(key), Buffer.from(stored, 'hex'));
+};
+
+const readStation = (req: Request): Station | null => {
+  const { station, key, name, play } = req.query;
+  if (typeof station !== 'string' || !station || typeof key !== 'string' || !key) return null;
+  saveStationKeyHash(station, hashKey(key).toString('hex'));
+  // Someone else's id: still receives events, but is not a station
+  if (!isStationKey(station, key)) return null;
+  return {
+    id: station,
+    name: typeof name === 'string' && name.trim() ? name.trim() : station,
+    canPlay: play !== '0',
+    connectedAt: new Date().toISOString(),
+  };
+};
+
+export function subscribe(req: Request, res: Response) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+
+  clients.set(res, readStation(req));
+  announceStations();
+  req.on('close', () => {
+    clients.delete(res);
+    announceStations();
+  });
+}
+
+export function broadcast(event: string, data: unknown) {
+  const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  clients.forEach((_station, res) => res.write(payload));
+}
+
+export function getClientCount() {
+  return clients.size;
+}
+
+export function getStations(): Station[] {
+  return uniqueStations([...clients.values()].filter((station): station is Station => station !== null));
+}
+
+// For requests made by a station rather than a person (bell outcomes, TTS, playback
+// reports): X-Bell-Station must name a station with an open event stream, and
+// X-Bell-Station-Key must be that station's key.
+export function requireStation(req: Request, res: Response, next: NextFunction) {
+  const id = req.header('X-Bell-Station');
+  if (!id || !isStationKey(id, req.header('X-Bell-Station-Key')) || !getStations().some(station => station.id === id)) {
+    res.status(403).json({ error: 'Only a connected bell station may do this' });
+    return;
+  }
+  res.locals.stationId = id;
+  next();
+}
+
+export function getLeaderId(): string | null {
+  return electLeader(getStations(), getSettings().primaryStationId);
+}
+
+// Sent whenever a station comes or goes, or the primary station is changed.
+export function announceStations() {
+  const event: StationsEvent = { stations: getStations(), leaderId: getLeaderId() };
+  broadcast('stations', event);
+}
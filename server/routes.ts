@@ -0,0 +1,323 @@
+import express, { Request, Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { AppUser, BellLogEntry, Broadcast, BroadcastEvent, CalendarEntry, ChangeEvent, DataChange, PlaybackStatus, ScheduleProfile } from '../src/types';
+import { mergeSettings } from '../src/defaults';
+import * as db from './db';
+import { subscribe, getClientCount, broadcast, announceStations, getLeaderId, requireStation } from './events';
+import { createBroadcastEntry } from '../src/utils/bellLog';
+import { SCHOOL_TIMEZONES } from '../src/utils/clock';
+import { MIN_PASSWORD_LENGTH, checkUserChange, isUserRole } from '../src/utils/roles';
+import { authenticate, createSession, findUserByName, getToken, hashPassword, requirePermission, toPublicUser, verifyPassword } from './auth';
+import * as tts from './tts';
+
+export const apiRouter = Router();
+
+// Reads are open to everyone (hallway displays sign in as nobody); writes check the role.
+// Bell outcomes, TTS and playback reports come from the bell station whoever is signed in
+// there, so they check for a connected station instead.
+apiRouter.use(authenticate);
+
+export const CHIME_DIR = path.resolve(process.env.BELL_CHIME_DIR || 'uploads/chimes');
+fs.mkdirSync(CHIME_DIR, { recursive: true });
+
+const CHIME_FILE_PATTERN = /^[\w-]+\.\w+$/;
+// Uploads are served back from this origin, so nothing but audio gets in
+const CHIME_EXTENSIONS = ['mp3', 'wav', 'ogg', 'm4a', 'webm'];
+
+// Every other open console applies the change at once; the one that made it skips its own echo.
+const announceChange = (req: Request, change: DataChange) => {
+  const event: ChangeEvent = { origin: req.header('X-Bell-Station') ?? null, change };
+  broadcast('change', event);
+};
+
+apiRouter.get('/state', (_req, res) => {
+  res.json({
+    profiles: db.getProfiles(),
+    settings: db.getSettings(),
+    calendar: db.getCalendar(),
+  });
+});
+
+apiRouter.get('/events', subscribe);
+
+// Reference clock for the consoles: each measures its own drift against it
+apiRouter.get('/time', (_req, res) => {
+  res.json({ now: Date.now() });
+});
+
+apiRouter.get('/health', (_req, res) => {
+  res.json({ ok: true, time: new Date().toISOString(), clients: getClientCount() });
+});
+
+apiRouter.get('/profiles', (_req, res) => {
+  res.json(db.getProfiles());
+});
+
+apiRouter.put('/profiles/:id', requirePermission('edit'), (req, res) => {
+  const profile = { ...req.body, id: req.params.id } as ScheduleProfile;
+  if (!profile.name || !Array.isArray(profile.items)) {
+    res.status(400).json({ error: 'Profile requires a name and an items array' });
+    return;
+  }
+  db.saveProfile(profile);
+  announceChange(req, { type: 'profile', profile });
+  res.json(profile);
+});
+
+apiRouter.delete('/profiles/:id', requirePermission('edit'), (req, res) => {
+  if (req.params.id === db.getSettings().activeProfileId) {
+    res.status(409).json({ error: 'Cannot delete the active profile' });
+    return;
+  }
+  db.deleteProfile(req.params.id);
+  announceChange(req, { type: 'profileDeleted', id: req.params.id });
+  res.status(204).end();
+});
+
+apiRouter.get('/settings', (_req, res) => {
+  res.json(db.getSettings());
+});
+
+apiRouter.put('/settings', requirePermission('edit'), (req, res) => {
+  const settings = mergeSettings({ ...db.getSettings(), ...req.body });
+  // The scheduler reads the clock in this zone every second; an unknown one would stop it
+  if (!SCHOOL_TIMEZONES.includes(settings.timezone)) {
+    res.status(400).json({ error: `Unknown timezone ${settings.timezone}` });
+    return;
+  }
+  db.saveSettings(settings);
+  announceChange(req, { type: 'settings', settings });
+  announceStations();
+  res.json(settings);
+});
+
+// Operators may switch automatic ringing without being allowed to touch the rest of the settings
+apiRouter.put('/settings/auto', requirePermission('toggleAuto'), (req, res) => {
+  if (typeof req.body?.enabled !== 'boolean') {
+    res.status(400).json({ error: 'Auto switch requires a boolean enabled' });
+    return;
+  }
+  const settings = { ...db.getSettings(), isAutoEnabled: req.body.enabled };
+  db.saveSettings(settings);
+  announceChange(req, { type: 'settings', settings });
+  res.json(settings);
+});
+
+apiRouter.post('/chimes', requirePermission('edit'), express.raw({ type: () => true, limit: '10mb' }), (req, res) => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({ error: 'Chime upload requires an audio body' });
+    return;
+  }
+  const ext = path.extname(String(req.query.name || '')).slice(1).toLowerCase();
+  if (!CHIME_EXTENSIONS.includes(ext) || !req.is('audio/*')) {
+    res.status(415).json({ error: `Chimes must be audio files (${CHIME_EXTENSIONS.join(', ')})` });
+    return;
+  }
+  const file = `${Math.random().toString(36).substr(2, 9)}.${ext}`;
+  fs.writeFileSync(path.join(CHIME_DIR, file), req.body);
+  res.status(201).json({ src: `/chimes/${file}` });
+});
+
+apiRouter.delete('/chimes/:file', requirePermission('edit'), (req, res) => {
+  if (!CHIME_FILE_PATTERN.test(req.params.file)) {
+    res.status(400).json({ error: 'Invalid chime file name' });
+    return;
+  }
+  fs.rmSync(path.join(CHIME_DIR, req.params.file), { force: true });
+  res.status(204).end();
+});
+
+apiRouter.get('/tts/voices', async (_req, res) => {
+  try {
+    res.json({ engine: await tts.detectEngine(), voices: await tts.getVoices() });
+  } catch (error) {
+    console.error('Error listing local TTS voices:', error);
+    res.json({ engine: null, voices: [] });
+  }
+});
+
+apiRouter.post('/tts', requireStation, async (req, res) => {
+  const { text, voice } = req.body || {};
+  if (typeof text !== 'string' || !text.trim()) {
+    res.status(400).json({ error: 'TTS requires text' });
+    return;
+  }
+  try {
+    const audio = await tts.synthesize(text, typeof voice === 'string' ? voice : '');
+    res.json({ data: audio.toString('base64'), mimeType: 'audio/wav' });
+  } catch (error) {
+    console.error('Error synthesizing local TTS:', error);
+    res.status(503).json({ error: 'Local TTS engine unavailable' });
+  }
+});
+
+apiRouter.get('/calendar', (_req, res) => {
+  res.json(db.getCalendar());
+});
+
+apiRouter.put('/calendar/:id', requirePermission('edit'), (req, res) => {
+  const entry = { ...req.body, id: req.params.id } as CalendarEntry;
+  if (!entry.startDate || !entry.endDate || !entry.type) {
+    res.status(400).json({ error: 'Calendar entry requires type, startDate and endDate' });
+    return;
+  }
+  db.saveCalendarEntry(entry);
+  announceChange(req, { type: 'calendar', entry });
+  res.json(entry);
+});
+
+apiRouter.delete('/calendar/:id', requirePermission('edit'), (req, res) => {
+  db.deleteCalendarEntry(req.params.id);
+  announceChange(req, { type: 'calendarDeleted', id: req.params.id });
+  res.status(204).end();
+});
+
+apiRouter.get('/log', (req, res) => {
+  const { from, to } = req.query;
+  if (typeof from !== 'string' || typeof to !== 'string') {
+    res.status(400).json({ error: 'Log query requires from and to' });
+    return;
+  }
+  res.json(db.getBellLog(from, to));
+});
+
+// A new entry (a bell rung by hand) belongs to the station that rang it; an entry the
+// server wrote belongs to the station it handed the bell to. Entries the server could
+// not hand to any station stay as the server wrote them.
+apiRouter.put('/log/:id', requireStation, (req, res) => {
+  const stationId = res.locals.stationId as string;
+  const existing = db.getBellLogEntry(req.params.id);
+  if (existing && existing.stationId !== stationId) {
+    res.status(403).json({ error: 'Log entry belongs to another station' });
+    return;
+  }
+  const entry = { ...req.body, id: req.params.id, stationId } as BellLogEntry;
+  if (!entry.firedAt || !entry.itemId) {
+    res.status(400).json({ error: 'Log entry requires firedAt and itemId' });
+    return;
+  }
+  db.saveBellLogEntry(entry);
+  res.json(entry);
+});
+
+// The leading station reports what it is playing; the others show it.
+apiRouter.post('/playback', requireStation, (req, res) => {
+  const status = req.body as PlaybackStatus;
+  if (typeof status?.stationId !== 'string' || !Array.isArray(status.pending)) {
+    res.status(400).json({ error: 'Playback status requires a stationId and pending labels' });
+    return;
+  }
+  if (status.stationId !== res.locals.stationId) {
+    res.status(403).json({ error: 'A station may only report its own playback' });
+    return;
+  }
+  broadcast('playback', status);
+  res.status(204).end();
+});
+
+apiRouter.post('/broadcast', requirePermission('broadcast'), (req, res) => {
+  const message = req.body as Broadcast;
+  if (!message?.id || typeof message.text !== 'string' || !message.text.trim()) {
+    res.status(400).json({ error: 'Broadcast requires an id and text' });
+    return;
+  }
+  const firedAt = new Date();
+  const entry = { ...createBroadcastEntry(message, firedAt), stationId: getLeaderId() };
+  if (!entry.stationId) entry.errors.push('No bell station connected to play the broadcast');
+  db.saveBellLogEntry(entry);
+
+  const event: BroadcastEvent = { broadcast: message, firedAt: firedAt.toISOString(), logId: entry.id };
+  console.log(`Broadcast [${message.urgency}] - ${message.title}`);
+  broadcast('broadcast', event);
+  res.status(202).json(entry);
+});
+
+apiRouter.get('/auth/status', (_req, res) => {
+  res.json({ user: res.locals.user, needsSetup: db.getUsers().length === 0 });
+});
+
+const readCredentials = (body: unknown) => {
+  const { username, password } = (body || {}) as { username?: unknown; password?: unknown };
+  return typeof username === 'string' && typeof password === 'string' ? { username: username.trim(), password } : null;
+};
+
+// Only possible while no account exists: the first person to open the console becomes admin.
+apiRouter.post('/auth/setup', (req, res) => {
+  const credentials = readCredentials(req.body);
+  if (db.getUsers().length > 0) {
+    res.status(409).json({ error: 'Setup already done' });
+    return;
+  }
+  if (!credentials?.username || credentials.password.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ error: `Setup requires a username and a password of at least ${MIN_PASSWORD_LENGTH} characters` });
+    return;
+  }
+  const user: db.StoredUser = {
+    id: Math.random().toString(36).substr(2, 9),
+    username: credentials.username,
+    role: 'admin',
+    ...hashPassword(credentials.password),
+  };
+  db.saveUser(user);
+  res.status(201).json({ token: createSession(user), user: toPublicUser(user) });
+});
+
+apiRouter.post('/auth/login', (req, res) => {
+  const credentials = readCredentials(req.body);
+  const user = credentials ? findUserByName(credentials.username) : undefined;
+  if (!credentials || !user || !verifyPassword(credentials.password, user)) {
+    res.status(401).json({ error: 'Wrong username or password' });
+    return;
+  }
+  res.json({ token: createSession(user), user: toPublicUser(user) });
+});
+
+apiRouter.post('/auth/logout', (req, res) => {
+  const token = getToken(req);
+  if (token) db.deleteSession(token);
+  res.status(204).end();
+});
+
+apiRouter.get('/users', requirePermission('manageUsers'), (_req, res) => {
+  res.json(db.getUsers().map(toPublicUser));
+});
+
+// A new user needs a password; for an existing one it is only sent to reset it.
+apiRouter.put('/users/:id', requirePermission('manageUsers'), (req, res) => {
+  const { username, role, password } = req.body || {};
+  const existing = db.getUsers().find(user => user.id === req.params.id);
+  if (typeof username !== 'string' || !isUserRole(role)) {
+    res.status(400).json({ error: 'User requires a username and a valid role' });
+    return;
+  }
+  if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+    res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    return;
+  }
+  if (!existing && password === undefined) {
+    res.status(400).json({ error: 'A new user requires a password' });
+    return;
+  }
+  const next: AppUser = { id: req.params.id, username: username.trim(), role };
+  const problem = checkUserChange(db.getUsers(), next.id, next);
+  if (problem) {
+    res.status(409).json({ error: problem });
+    return;
+  }
+  const credentials = password !== undefined ? hashPassword(password) : { salt: existing!.salt, hash: existing!.hash };
+  db.saveUser({ ...next, ...credentials });
+  res.json(next);
+});
+
+apiRouter.delete('/users/:id', requirePermission('manageUsers'), (req, res) => {
+  const problem = req.params.id === res.locals.user.id
+    ? 'Cannot delete the signed-in user'
+    : checkUserChange(db.getUsers(), req.params.id, null);
+  if (problem) {
+    res.status(409).json({ error: problem });
+    return;
+  }
+  db.deleteUser(req.params.id);
+  res.status(204).end();
+});
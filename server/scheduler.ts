@@ -0,0 +1,60 @@
+import { format } from 'date-fns';
+import { getScheduleForDate } from '../src/utils/calendar';
+import { BellEvent, BellGroup, getBellEvents, groupBellEvents } from '../src/utils/bells';
+import { getDueProfile } from '../src/utils/profiles';
+import { checkDueBells } from '../src/utils/missedBells';
+import { toSchoolTime } from '../src/utils/clock';
+import { getProfiles, saveProfile, getSettings, saveSettings, getCalendar, getFiredState, saveFiredState } from './db';
+import { broadcast } from './events';
+import { ChangeEvent, DataChange, SchoolTimezone } from '../src/types';
+
+const announceChange = (change: DataChange) => broadcast('change', { origin: null, change } satisfies ChangeEvent);
+
+export function startScheduler(
+  onRing: (group: BellGroup, firedAt: Date, timeZone: SchoolTimezone) => void,
+  onMissed: (event: BellEvent, detectedAt: Date, timeZone: SchoolTimezone) => void,
+) {
+  let firedState = getFiredState();
+
+  const tick = () => {
+    const instant = new Date();
+    const profiles = getProfiles();
+    let settings = getSettings();
+    // The timetable runs on the school's clock, whatever zone the server is set to
+    const now = toSchoolTime(instant, settings.timezone);
+
+    // Scheduled profile switches (e.g. Ramadan starting on a given date)
+    const due = getDueProfile(profiles, now);
+    if (due) {
+      const today = format(now, 'yyyy-MM-dd');
+      profiles
+        .filter(p => p.activateOn && p.activateOn <= today)
+        .forEach(p => {
+          const profile = { ...p, activateOn: undefined };
+          saveProfile(profile);
+          announceChange({ type: 'profile', profile });
+        });
+      if (due.id !== settings.activeProfileId) {
+        settings = { ...settings, activeProfileId: due.id };
+        saveSettings(settings);
+        announceChange({ type: 'settings', settings });
+      }
+    }
+
+    const events = getBellEvents(getScheduleForDate(getProfiles(), now, settings, getCalendar()));
+    const { ring, missed, state } = checkDueBells(events, firedState, now, settings);
+    if (state !== firedState) {
+      firedState = state;
+      saveFiredState(state);
+    }
+    // Bells passing while automatic ringing is off are skipped on purpose, not missed
+    if (!settings.isAutoEnabled) return;
+
+    // Lessons sharing a minute become one combined announcement
+    groupBellEvents(ring).forEach(group => onRing(group, instant, settings.timezone));
+    missed.forEach(event => onMissed(event, instant, settings.timezone));
+  };
+
+  const timer = setInterval(tick, 1000);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,89 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TtsVoice } from '../src/types';
+
+// Offline speech for schools without a reliable connection. Piper sounds far
+// better but needs a downloaded model; espeak-ng is the fallback that most
+// distributions can install from their package manager.
+const PIPER_BIN = process.env.PIPER_BIN || 'piper';
+const PIPER_MODEL = process.env.PIPER_MODEL;
+const ESPEAK_BIN = process.env.ESPEAK_BIN || 'espeak-ng';
+const TIMEOUT_MS = 30000;
+
+export type LocalTtsEngine = 'piper' | 'espeak';
+
+function run(command: string, args: string[], input?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => child.kill(), TIMEOUT_MS);
+
+    child.stdout.on('data', chunk => chunks.push(chunk));
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim()}`));
+    });
+    // EPIPE when the engine exits before reading its input
+    child.stdin.on('error', reject);
+    child.stdin.end(input);
+  });
+}
+
+let enginePromise: Promise<LocalTtsEngine | null> | null = null;
+
+export function detectEngine(): Promise<LocalTtsEngine | null> {
+  if (!enginePromise) {
+    enginePromise = (async () => {
+      if (PIPER_MODEL && fs.existsSync(PIPER_MODEL)) return 'piper';
+      try {
+        await run(ESPEAK_BIN, ['--version']);
+        return 'espeak';
+      } catch {
+        return null;
+      }
+    })();
+  }
+  return enginePromise;
+}
+
+export async function getVoices(): Promise<TtsVoice[]> {
+  const engine = await detectEngine();
+  if (engine === 'piper') {
+    const name = path.basename(PIPER_MODEL!, '.onnx');
+    return [{ id: name, name }];
+  }
+  if (engine === 'espeak') {
+    // Columns: Pty Language Age/Gender VoiceName File Other
+    const output = (await run(ESPEAK_BIN, ['--voices'])).toString();
+    return output.split('\n').slice(1)
+      .map(line => line.trim().split(/\s+/))
+      .filter(columns => columns.length >= 4)
+      .map(([, language, , name]) => ({ id: language, name: `${name} (${language})` }));
+  }
+  return [];
+}
+
+// Returns a WAV file. Piper only writes to a path, so it goes through a temp file.
+export async function synthesize(text: string, voice: string): Promise<Buffer> {
+  const engine = await detectEngine();
+  if (engine === 'piper') {
+    const output = path.join(os.tmpdir(), `bell-tts-${crypto.randomUUID()}.wav`);
+    try {
+      await run(PIPER_BIN, ['--model', PIPER_MODEL!, '--output_file', output], text);
+      return fs.readFileSync(output);
+    } finally {
+      fs.rmSync(output, { force: true });
+    }
+  }
+  if (engine === 'espeak') {
+    return run(ESPEAK_BIN, ['-v', voice || 'id', '--stdout', '--stdin'], text);
+  }
+  throw new Error('No local TTS engine is installed');
+}
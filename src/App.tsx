@@ -15,99 +15,303 @@ import {
   Calendar,
   User,
   BookOpen,
-  Volume2
+  Volume2,
+  VolumeX,
+  CalendarOff,
+  RefreshCw,
+  CheckCircle2,
+  AlertTriangle,
+  Loader2,
+  SkipForward,
+  FileSpreadsheet,
+  LogIn,
+  LogOut,
+  Monitor,
+  X
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { format, parse, isBefore, isAfter, addMinutes } from 'date-fns';
-import { ScheduleItem, AppSettings } from './types';
-import { generateAnnouncementAudio, playAudioFromBase64 } from './services/geminiService';
+import { format, parse, isBefore, isAfter, addMinutes, getDay, startOfDay, endOfDay } from 'date-fns';
+import { ScheduleItem, AppSettings, CalendarEntry, ScheduleProfile, BellLogEntry, MissedBellPolicy, TtsProviderId, Broadcast, AppUser, DataChange, PlaybackStatus, StationsEvent, SchoolTimezone } from './types';
+import { AudioCacheStatus, ensureCachedAudio, warmAudioCache } from './services/audioCache';
+import { getPrimarySynthesizer, prepareAnnouncement, speakAnnouncement, toSpokenText } from './services/ttsService';
+import { BUILTIN_CHIMES, findChime, getAllChimes, getFallbackChime, playChime, resolveChime } from './services/chimeService';
+import { AnnouncementPriority, QueueSnapshot, createAnnouncementQueue } from './services/announcementQueue';
 import { supabase } from './services/supabaseClient';
+import { SyncRecord, SyncSnapshot, SyncTable, createSyncEngine } from './services/syncEngine';
+import { StationChannel, syncBackend } from './services/syncBackends';
+import { LocalStation, loadStation, saveStation } from './services/station';
+import * as api from './services/apiClient';
+import { ServerState } from './services/apiClient';
+import * as auth from './services/authService';
+import { ClockOffset, measureClockOffset } from './services/clockService';
+import { unlockAudio, watchAudioState } from './services/audioPlayer';
+import { DAY_LABELS, SCHOOL_DAYS, getWeekRotation, formatDays } from './utils/schedule';
+import { sortItems, normalizeProfile, profileFromLegacySchedule, getActiveProfile, duplicateProfile, getDueProfile } from './utils/profiles';
+import { DEFAULT_SETTINGS, DEFAULT_PROFILES, mergeSettings } from './defaults';
+import { getDayPlan, getScheduleForDate, sortCalendar } from './utils/calendar';
+import { buildGroupAnnouncement } from './utils/announcement';
+import { BELL_TYPES, BellGroup, getBellEvents, getItemEvents, getPossibleGroups, groupBellEvents, describeItem, describeGroup } from './utils/bells';
+import { createBroadcastEntry, createLogEntry, createMissedEntry, formatLogTime, mergeLogEntry } from './utils/bellLog';
+import { FiredState, checkDueBells, getLateness, isTooLate, markFired, skipDueBells } from './utils/missedBells';
+import { MASTER_KINDS, linkMasterData } from './utils/masterData';
+import { describeProblems, getItemProblems, hasErrors, validateItem, validateSchedule } from './utils/validation';
+import { Permission, ROLE_LABELS, hasPermission } from './utils/roles';
+import { electLeader, uniqueStations } from './utils/stations';
+import { getMarqueeText } from './utils/marquee';
+import { getSchoolNow } from './utils/now';
+import { DRIFT_WARNING_MS, SCHOOL_TIMEZONES, TIMEZONE_LABELS, formatDrift, fromSchoolTime, getZoneDifference, toSchoolTime } from './utils/clock';
+import CalendarPanel from './components/CalendarPanel';
+import ProfileBar from './components/ProfileBar';
+import TemplateEditor from './components/TemplateEditor';
+import ScheduleModal from './components/ScheduleModal';
+import TimetableImport from './components/TimetableImport';
+import ChimeLibrary from './components/ChimeLibrary';
+import TtsSettings from './components/TtsSettings';
+import BellLogPanel from './components/BellLogPanel';
+import BroadcastConsole from './components/BroadcastConsole';
+import MasterDataPanel from './components/MasterDataPanel';
+import PronunciationEditor from './components/PronunciationEditor';
+import LoginModal from './components/LoginModal';
+import UserManager from './components/UserManager';
+import SyncIndicator from './components/SyncIndicator';
+import StationPanel from './components/StationPanel';
+import MarqueeEditor from './components/MarqueeEditor';
+import RunningText from './components/RunningText';
+import KioskDisplay from './components/KioskDisplay';
+import NowGrid from './components/NowGrid';
 
-const DEFAULT_SCHEDULE: ScheduleItem[] = [
-  { id: '1', period: 1, startTime: '07:00', endTime: '07:45', teacher: 'Budi Santoso', gender: 'Bapak', subject: 'Matematika', className: 'X-A', isActive: true },
-  { id: '2', period: 2, startTime: '07:45', endTime: '08:30', teacher: 'Siti Aminah', gender: 'Ibu', subject: 'Bahasa Indonesia', className: 'XI-B', isActive: true },
-  { id: '3', period: 3, startTime: '08:30', endTime: '09:15', teacher: 'Siti Aminah', gender: 'Ibu', subject: 'Bahasa Indonesia', className: 'XI-B', isActive: true },
-  { id: '4', period: 4, startTime: '09:30', endTime: '10:15', teacher: 'Joko Widodo', gender: 'Bapak', subject: 'Fisika', className: 'XII-C', isActive: true },
-  { id: '5', period: 5, startTime: '10:15', endTime: '11:00', teacher: 'Joko Widodo', gender: 'Bapak', subject: 'Fisika', className: 'XII-C', isActive: true },
-];
+const loadLocalLog = (): BellLogEntry[] => JSON.parse(localStorage.getItem('school_bell_log') || '[]');
 
-const CHIME_URL = "https://assets.mixkit.co/active_storage/sfx/2869/2869-preview.mp3";
+const PRIORITY_STYLES: Record<AnnouncementPriority, { label: string; className: string }> = {
+  emergency: { label: 'Darurat', className: 'bg-rose-400/30 text-rose-200' },
+  scheduled: { label: 'Jadwal', className: 'bg-indigo-400/30 text-indigo-100' },
+  test: { label: 'Tes', className: 'bg-white/10 text-indigo-200' },
+};
 
-export default function App() {
+const loadLocalProfiles = (): ScheduleProfile[] | null => {
+  const savedProfiles = localStorage.getItem('school_bell_profiles');
+  if (savedProfiles) return JSON.parse(savedProfiles).map(normalizeProfile);
+  const savedSchedule = localStorage.getItem('school_bell_schedule');
+  if (savedSchedule) return [profileFromLegacySchedule(JSON.parse(savedSchedule))];
+  return null;
+};
+
+const sortByName = (profiles: ScheduleProfile[]) => [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+
+// Rows from the sync backend as the changes the bell server pushes; `record` is null for a deletion
+const toDataChange = (table: SyncTable, id: string, record: SyncRecord | null): DataChange => {
+  if (table === 'profiles') {
+    return record ? { type: 'profile', profile: record as unknown as ScheduleProfile } : { type: 'profileDeleted', id };
+  }
+  if (table === 'calendar') {
+    return record ? { type: 'calendar', entry: record as unknown as CalendarEntry } : { type: 'calendarDeleted', id };
+  }
+  const { id: _id, updatedAt, ...rest } = (record || {}) as AppSettings & SyncRecord;
+  return { type: 'settings', settings: rest };
+};
+
+interface AppProps {
+  kiosk?: boolean; // the read-only hallway display
+}
+
+export default function App({ kiosk = false }: AppProps) {
   const [currentTime, setCurrentTime] = useState(new Date());
-  const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
-  const [settings, setSettings] = useState<AppSettings>({
-    schoolName: 'SMP ISLAM ARRAUDHOH',
-    isAutoEnabled: true,
-    voiceName: 'Kore'
-  });
+  const [profiles, setProfiles] = useState<ScheduleProfile[]>([]);
+  const [viewedProfileId, setViewedProfileId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [calendar, setCalendar] = useState<CalendarEntry[]>([]);
   const [lastTriggered, setLastTriggered] = useState<string | null>(null);
-  const [isAnnouncing, setIsAnnouncing] = useState(false);
+  const [queue, setQueue] = useState<QueueSnapshot>({ current: null, pending: [] });
+  const [announcementQueue] = useState(() => createAnnouncementQueue(setQueue));
+  const [syncStatus, setSyncStatus] = useState<SyncSnapshot | null>(null);
+  const conflictRef = useRef<(table: SyncTable, remote: SyncRecord) => void>(() => {});
+  const [sync] = useState(() => syncBackend && createSyncEngine(syncBackend, setSyncStatus, (table, remote) => conflictRef.current(table, remote)));
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [editingItem, setEditingItem] = useState<ScheduleItem | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState<number | null>(() => getDay(toSchoolTime(new Date(), DEFAULT_SETTINGS.timezone)));
+  const [isServerMode, setIsServerMode] = useState(false);
+  const [isServerConnected, setIsServerConnected] = useState(false);
+  const [cacheStatus, setCacheStatus] = useState<Record<string, AudioCacheStatus>>({});
+  const [logVersion, setLogVersion] = useState(0);
+  const [missedBells, setMissedBells] = useState<BellLogEntry[]>([]);
+  const [user, setUser] = useState<AppUser | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [showLogin, setShowLogin] = useState(false);
+  // A hallway display beside the office console in the same browser is a station of its own, and never plays
+  const [station, setStation] = useState<LocalStation>(() => {
+    const local = loadStation();
+    return kiosk ? { id: `${local.id}-kiosk`, name: `${local.name} (Layar)`, canPlay: false } : local;
+  });
+  // Null while no other device can be seen (localStorage only), in which case this one plays
+  const [stations, setStations] = useState<StationsEvent | null>(null);
+  const [remotePlayback, setRemotePlayback] = useState<PlaybackStatus | null>(null);
+  const [clockOffset, setClockOffset] = useState<ClockOffset | null>(null);
+  const [audioState, setAudioState] = useState<AudioContextState>('running');
+  const stationChannelRef = useRef<StationChannel | null>(null);
+  const firedStateRef = useRef<FiredState | null>(JSON.parse(localStorage.getItem('school_bell_fired') || 'null'));
+  const isFallbackRef = useRef(false); // ringing locally although there is a bell server
 
-  // Initial Data Fetch
-  useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      if (supabase) {
-        try {
-          // Fetch Schedule
-          const { data: scheduleData, error: scheduleError } = await supabase
-            .from('schedules')
-            .select('*')
-            .order('startTime', { ascending: true });
-          
-          if (scheduleError) throw scheduleError;
-          if (scheduleData && scheduleData.length > 0) {
-            setSchedule(scheduleData);
-          } else {
-            setSchedule(DEFAULT_SCHEDULE);
-          }
-
-          // Fetch Settings
-          const { data: settingsData, error: settingsError } = await supabase
-            .from('settings')
-            .select('*')
-            .single();
-          
-          if (settingsError && settingsError.code !== 'PGRST116') throw settingsError;
-          if (settingsData) {
-            const { id, ...rest } = settingsData;
-            setSettings(rest);
-          }
-        } catch (error) {
-          console.error('Error fetching from Supabase:', error);
-          // Fallback to localStorage
-          const savedSchedule = localStorage.getItem('school_bell_schedule');
-          const savedSettings = localStorage.getItem('school_bell_settings');
-          if (savedSchedule) setSchedule(JSON.parse(savedSchedule));
-          if (savedSettings) setSettings(JSON.parse(savedSettings));
+  const activeProfile = getActiveProfile(profiles, settings, currentTime);
+  const viewedProfile = profiles.find(p => p.id === viewedProfileId) || activeProfile;
+  const schedule = viewedProfile?.items || [];
+  const authMode: auth.AuthMode = isServerMode ? 'server' : supabase ? 'supabase' : 'local';
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+  // The bell server elects the leader itself; Supabase devices all run the same election
+  const leaderId = stations && (isServerMode ? stations.leaderId : electLeader(stations.stations, settings.primaryStationId));
+  const isLeader = !stations || leaderId === station.id;
+  const isLeaderRef = useRef(isLeader);
+  isLeaderRef.current = isLeader;
+
+  // This device's clock, corrected by the offset to the reference clock. Stored
+  // timestamps use readInstant(); the timetable is compared against readClock().
+  const offsetRef = useRef(0);
+  offsetRef.current = clockOffset?.offsetMs ?? 0;
+  const timeZoneRef = useRef(settings.timezone);
+  timeZoneRef.current = settings.timezone;
+  const readInstant = () => new Date(Date.now() + offsetRef.current);
+  const readClock = () => toSchoolTime(readInstant(), settings.timezone);
+
+  const applyServerState = (serverState: ServerState) => {
+    setProfiles(serverState.profiles.map(normalizeProfile));
+    setSettings(mergeSettings(serverState.settings));
+    setCalendar(serverState.calendar);
+  };
+
+  // Initial Data Fetch; the hallway display also comes back here to recover
+  const loadData = async () => {
+    const serverState = await api.fetchServerState();
+    if (serverState) {
+      // The bell server owns the schedule; Supabase and localStorage are not consulted
+      setIsServerMode(true);
+      applyServerState(serverState);
+    } else if (sync && syncBackend) {
+      try {
+        // Changes still waiting in the outbox are laid over what the remote store returns
+        const [profileRows, settingsRows, calendarRows] = await Promise.all([
+          syncBackend.fetchAll('profiles') as Promise<ScheduleProfile[]>,
+          syncBackend.fetchAll('settings') as Promise<(AppSettings & SyncRecord)[]>,
+          syncBackend.fetchAll('calendar') as Promise<CalendarEntry[]>,
+        ]);
+
+        if (profileRows.length === 0 && sync.overlay('profiles', profileRows).length === 0) {
+          // Migrate the flat schedule table from before profiles existed
+          const scheduleData = await syncBackend.fetchLegacySchedule?.() || [];
+          const migrated = scheduleData.length > 0 ? [profileFromLegacySchedule(scheduleData)] : DEFAULT_PROFILES;
+          migrated.forEach(profile => sync.enqueue('profiles', 'upsert', profile));
         }
-      } else {
+        setProfiles(sortByName(sync.overlay('profiles', profileRows).map(normalizeProfile)));
+
+        const [settingsRow] = sync.overlay('settings', settingsRows);
+        if (settingsRow) {
+          const { id, updatedAt, ...rest } = settingsRow;
+          setSettings(mergeSettings(rest));
+        }
+
+        setCalendar(sortCalendar(sync.overlay('calendar', calendarRows)));
+      } catch (error) {
+        console.error('Error fetching from the sync backend:', error);
         // Fallback to localStorage
-        const savedSchedule = localStorage.getItem('school_bell_schedule');
+        const savedProfiles = loadLocalProfiles();
         const savedSettings = localStorage.getItem('school_bell_settings');
-        setSchedule(savedSchedule ? JSON.parse(savedSchedule) : DEFAULT_SCHEDULE);
-        setSettings(savedSettings ? JSON.parse(savedSettings) : {
-          schoolName: 'SMP ISLAM ARRAUDHOH',
-          isAutoEnabled: true,
-          voiceName: 'Kore'
-        });
+        const savedCalendar = localStorage.getItem('school_bell_calendar');
+        setProfiles(savedProfiles || DEFAULT_PROFILES);
+        if (savedSettings) setSettings(mergeSettings(JSON.parse(savedSettings)));
+        if (savedCalendar) setCalendar(JSON.parse(savedCalendar));
       }
-      setIsLoading(false);
+    } else {
+      // Fallback to localStorage
+      const savedProfiles = loadLocalProfiles();
+      const savedSettings = localStorage.getItem('school_bell_settings');
+      const savedCalendar = localStorage.getItem('school_bell_calendar');
+      setProfiles(savedProfiles || DEFAULT_PROFILES);
+      setSettings(savedSettings ? mergeSettings(JSON.parse(savedSettings)) : DEFAULT_SETTINGS);
+      setCalendar(savedCalendar ? JSON.parse(savedCalendar) : []);
+    }
+    setIsLoading(false);
+  };
+
+  // Today by the school's clock, once the saved timezone is known
+  useEffect(() => {
+    if (!isLoading) setSelectedDay(getDay(readClock()));
+  }, [isLoading]);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Unattended, the hallway display reloads once the network is back, and keeps
+  // looking for the bell server if it started while that was unreachable.
+  useEffect(() => {
+    if (!kiosk || isLoading) return;
+    const reload = () => { loadData(); };
+    window.addEventListener('online', reload);
+    const timer = isServerMode ? null : setInterval(reload, 60000);
+    return () => {
+      window.removeEventListener('online', reload);
+      if (timer) clearInterval(timer);
     };
+  }, [kiosk, isLoading, isServerMode]);
 
-    fetchData();
+  useEffect(() => {
+    if (!sync) return;
+    sync.start();
+    return () => sync.stop();
   }, []);
 
+  // Edits made on another device, pushed live or kept over ours in a sync conflict
+  const applyChange = (change: DataChange) => {
+    if (change.type === 'profile') {
+      const profile = normalizeProfile(change.profile);
+      setProfiles(prev => sortByName([...prev.filter(p => p.id !== profile.id), profile]));
+    } else if (change.type === 'profileDeleted') {
+      setProfiles(prev => prev.filter(p => p.id !== change.id));
+    } else if (change.type === 'settings') {
+      setSettings(mergeSettings(change.settings));
+    } else if (change.type === 'calendar') {
+      setCalendar(prev => sortCalendar([...prev.filter(e => e.id !== change.entry.id), change.entry]));
+    } else {
+      setCalendar(prev => prev.filter(e => e.id !== change.id));
+    }
+  };
+
+  conflictRef.current = (table, remote) => applyChange(toDataChange(table, String(remote.id), remote));
+
+  // Supabase: other devices' edits arrive live, and the stations announce themselves
+  useEffect(() => {
+    if (isLoading || isServerMode || !syncBackend) return;
+    const unsubscribe = syncBackend.subscribe?.((table, id, record) => {
+      // A change of ours still in the outbox is newer and will overwrite it
+      if (sync?.hasPending(table, id)) return;
+      applyChange(toDataChange(table, id, record));
+    });
+    const channel = syncBackend.joinStations?.(
+      { ...station, connectedAt: new Date().toISOString() },
+      (list) => setStations({ stations: uniqueStations(list), leaderId: null }),
+      setRemotePlayback,
+    );
+    stationChannelRef.current = channel || null;
+    return () => {
+      unsubscribe?.();
+      channel?.leave();
+      stationChannelRef.current = null;
+      setStations(null);
+    };
+  }, [isLoading, isServerMode, station]);
+
+  // Renaming this device or changing whether it may play reconnects it under the new details
+  const handleStationChange = (next: LocalStation) => {
+    saveStation(next);
+    setStation(next);
+  };
+
   // Persistence (Backup to localStorage)
   useEffect(() => {
     if (!isLoading) {
-      localStorage.setItem('school_bell_schedule', JSON.stringify(schedule));
+      localStorage.setItem('school_bell_profiles', JSON.stringify(profiles));
     }
-  }, [schedule, isLoading]);
+  }, [profiles, isLoading]);
 
   useEffect(() => {
     if (!isLoading) {
@@ -115,165 +319,607 @@ export default function App() {
     }
   }, [settings, isLoading]);
 
-  // Sync Settings to Supabase
+  useEffect(() => {
+    if (!isLoading) {
+      localStorage.setItem('school_bell_calendar', JSON.stringify(calendar));
+    }
+  }, [calendar, isLoading]);
+
+  // Accounts follow the storage backend, so the session is restored once it is known.
+  // The hallway display stays signed out even when the console in the same browser isn't.
+  useEffect(() => {
+    if (isLoading || kiosk) return;
+    auth.getAuthStatus(authMode)
+      .then(status => {
+        setUser(status.user);
+        setNeedsSetup(status.needsSetup);
+        // A fresh install has no admin yet; ask for one straight away
+        if (status.needsSetup) setShowLogin(true);
+      })
+      .catch(error => console.error('Error restoring session:', error));
+  }, [isLoading, authMode]);
+
+  const handleSignedIn = (signedIn: AppUser) => {
+    setUser(signedIn);
+    setNeedsSetup(false);
+    setShowLogin(false);
+  };
+
+  const handleSignOut = async () => {
+    await auth.signOut(authMode);
+    setUser(null);
+  };
+
+  // Sync Settings to the bell server or Supabase. Every write checks the role itself,
+  // so hiding a button is never the only thing standing in the way.
   const updateSettings = async (newSettings: AppSettings) => {
+    if (!can('edit')) return;
     setSettings(newSettings);
-    if (supabase) {
+    if (isServerMode) {
       try {
-        const { error } = await supabase
-          .from('settings')
-          .upsert({ id: 1, ...newSettings });
-        if (error) throw error;
+        await api.saveSettings(newSettings);
+      } catch (error) {
+        console.error('Error updating settings on server:', error);
+      }
+    } else if (sync) {
+      sync.enqueue('settings', 'upsert', { id: 1, ...newSettings });
+    }
+  };
+
+  // Operators may switch automatic ringing without being able to change any other setting
+  const handleToggleAuto = async () => {
+    if (!can('toggleAuto')) return;
+    const newSettings = { ...settings, isAutoEnabled: !settings.isAutoEnabled };
+    setSettings(newSettings);
+    if (isServerMode) {
+      try {
+        await api.setAutoEnabled(newSettings.isAutoEnabled);
       } catch (error) {
-        console.error('Error updating settings in Supabase:', error);
+        console.error('Error toggling automatic ringing on server:', error);
       }
+    } else if (sync) {
+      sync.enqueue('settings', 'upsert', { id: 1, ...newSettings });
     }
   };
 
+  // Keeps lessons linked to teacher, subject and class master data: names typed,
+  // imported or saved before master data existed get ids, and renames reach every profile.
+  // Only an admin's browser writes the result back.
+  useEffect(() => {
+    if (isLoading || !can('edit')) return;
+    const linked = linkMasterData(profiles, settings);
+    if (MASTER_KINDS.some(kind => linked.master[kind].length !== settings[kind].length)) {
+      updateSettings({ ...settings, ...linked.master });
+    }
+    linked.profiles.filter((profile, i) => profile !== profiles[i]).forEach(saveProfile);
+  }, [profiles, settings.teachers, settings.subjects, settings.classes, isLoading, user]);
+
+  const updateFiredState = (state: FiredState) => {
+    if (state === firedStateRef.current) return;
+    firedStateRef.current = state;
+    localStorage.setItem('school_bell_fired', JSON.stringify(state));
+  };
+
   // Clock and Trigger Logic
   useEffect(() => {
     const timer = setInterval(() => {
-      const now = new Date();
+      const instant = readInstant();
+      const now = toSchoolTime(instant, settings.timezone);
       setCurrentTime(now);
 
-      if (settings.isAutoEnabled) {
-        const timeStr = format(now, 'HH:mm');
-        
-        // Check if we already triggered this minute
-        if (lastTriggered !== timeStr) {
-          const matchingItem = schedule.find(item => item.isActive && item.startTime === timeStr);
-          if (matchingItem) {
-            triggerBell(matchingItem);
-            setLastTriggered(timeStr);
-          }
+      if (isLoading) return;
+      // While connected, the bell server's own clock decides when to ring
+      if (isServerConnected) {
+        isFallbackRef.current = false;
+        updateFiredState(skipDueBells(firedStateRef.current, now));
+      } else {
+        // Taking over from the bell server (or waiting for it on load): it handled everything until now
+        if (isServerMode && !isFallbackRef.current) {
+          isFallbackRef.current = true;
+          updateFiredState(skipDueBells(firedStateRef.current, now));
+        }
+        // Holidays return an empty list; special days swap in another weekday's timetable
+        const events = getBellEvents(getScheduleForDate(profiles, now, settings, calendar));
+        const { ring, missed, state } = checkDueBells(events, firedStateRef.current, now, settings);
+        updateFiredState(state);
+
+        // Bells passing while automatic ringing is off are skipped on purpose, not missed.
+        // Only the leading station rings and logs them; the others just keep count.
+        if (settings.isAutoEnabled && isLeaderRef.current) {
+          groupBellEvents(ring).forEach(group => {
+            setLastTriggered(group.time);
+            triggerBellRef.current(group, group.items.map(item => createLogEntry(item, group.kind, 'auto', instant, settings.timezone)));
+          });
+          missed.forEach(event => {
+            missedBellRef.current(createMissedEntry(event.item, event.kind, instant, settings.timezone, `Missed: detected ${getLateness(event.time, now)} min late`));
+          });
         }
       }
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [schedule, settings.isAutoEnabled, lastTriggered]);
+  }, [profiles, calendar, settings, isServerConnected, isServerMode, isLoading]);
 
-  const triggerBell = async (item: ScheduleItem) => {
-    if (isAnnouncing) return;
-    setIsAnnouncing(true);
+  // Checked against the bell server (or whatever served the page) at start, every
+  // ten minutes and whenever the network comes back
+  useEffect(() => {
+    if (isLoading) return;
+    const measure = () => {
+      measureClockOffset(isServerMode)
+        .then(setClockOffset)
+        .catch(error => console.error('Error measuring clock offset:', error));
+    };
+    measure();
+    const timer = setInterval(measure, 10 * 60 * 1000);
+    window.addEventListener('online', measure);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', measure);
+    };
+  }, [isLoading, isServerMode]);
 
-    try {
-      // 1. Play Chime Music First
-      const chime = new Audio(CHIME_URL);
-      await new Promise((resolve) => {
-        chime.onended = resolve;
-        chime.onerror = resolve; // Continue even if chime fails
-        chime.play().catch(resolve);
+  // Browsers keep audio suspended until someone interacts with the page
+  useEffect(() => watchAudioState(setAudioState), []);
+  const isAudioBlocked = audioState !== 'running' && station.canPlay;
+
+  // Scheduled profile switches (e.g. Ramadan starting on a given date) ring on every station as
+  // soon as they are due; an admin's browser then saves them as the active profile
+  const today = format(currentTime, 'yyyy-MM-dd');
+  useEffect(() => {
+    if (isLoading || isServerMode || !can('edit')) return;
+    const due = getDueProfile(profiles, currentTime);
+    if (!due) return;
+    profiles
+      .filter(p => p.activateOn && p.activateOn <= today)
+      .forEach(p => saveProfile({ ...p, activateOn: undefined }));
+    if (due.id !== settings.activeProfileId) {
+      updateSettings({ ...settings, activeProfileId: due.id });
+    }
+  }, [today, profiles, isLoading, user]);
+
+  // Pre-generate announcement audio whenever items or the voice change, and again each day
+  useEffect(() => {
+    if (isLoading) return;
+    const timeout = setTimeout(async () => {
+      const synth = await getPrimarySynthesizer(settings);
+      if (!synth) return;
+      // Rows report the status of their own announcement or of the combined one they belong to
+      const requests = profiles.flatMap(p => getPossibleGroups(p.items)).flatMap(group => {
+        const texts = buildGroupAnnouncement(group, settings);
+        return group.items.flatMap(item => texts.map(text => ({ id: `${item.id}:${group.kind}`, text: toSpokenText(text, settings) })));
+      });
+      warmAudioCache(requests, synth, (id, status) => {
+        setCacheStatus(prev => ({ ...prev, [id]: status }));
       });
+    }, 2000);
+    return () => clearTimeout(timeout);
+  }, [profiles, settings.ttsChain, settings.ttsVoices, settings.templates, settings.groupTemplates, settings.schoolName, settings.maxAnnouncementLength, settings.pronunciations, settings.teachers, today, isLoading]);
 
-      // 2. Prepare Announcement Text
-      const greeting = "Assalamualaikum warahmatullohi wabarokatuh, kepada siswa SMP ISLAM ARRAUDHOH. ";
-      const text = `${greeting} Perhatian. Jam ke ${item.period}. Pukul ${item.startTime}. ${item.gender} Guru ${item.teacher}, pengampu mata pelajaran ${item.subject}, dipersilakan masuk kelas ${item.className}. Selamat belajar.`;
-      
-      // 3. Generate and Play Announcement
-      const audioData = await generateAnnouncementAudio(text, settings.voiceName);
-      if (audioData) {
-        try {
-          await playAudioFromBase64(audioData);
-        } catch (playError) {
-          console.warn("Gemini audio playback failed, falling back to browser TTS:", playError);
-          const utterance = new SpeechSynthesisUtterance(text);
-          utterance.lang = 'id-ID';
-          window.speechSynthesis.speak(utterance);
+  // Ring events pushed by the bell server
+  const triggerBellRef = useRef<(group: BellGroup, entries: BellLogEntry[]) => void>(() => {});
+  const missedBellRef = useRef<(entry: BellLogEntry) => void>(() => {});
+  const broadcastRef = useRef<(broadcast: Broadcast, entry: BellLogEntry) => void>(() => {});
+  useEffect(() => {
+    if (!isServerMode) return;
+    let hasDropped = false;
+    return api.subscribeToServer(station, {
+      // Every station sees the ring, only the leading one plays it
+      onRing: (event) => {
+        setLastTriggered(event.time);
+        const fired = skipDueBells(firedStateRef.current, toSchoolTime(readInstant(), timeZoneRef.current));
+        updateFiredState(markFired(fired, event.items.map(item => ({ item, kind: event.kind, time: event.time }))));
+        if (!isLeaderRef.current) return;
+        triggerBellRef.current(
+          { kind: event.kind, time: event.time, items: event.items },
+          event.items.map((item, i) => createLogEntry(item, event.kind, 'auto', new Date(event.firedAt), timeZoneRef.current, event.logIds[i])),
+        );
+      },
+      // Already logged by the server; only the dashboard warning is needed here
+      onMissed: (entry) => {
+        setMissedBells(prev => [...prev, entry]);
+        setLogVersion(v => v + 1);
+      },
+      onBroadcast: (event) => {
+        if (!isLeaderRef.current) return;
+        broadcastRef.current(event.broadcast, createBroadcastEntry(event.broadcast, new Date(event.firedAt), event.logId));
+      },
+      // Our own writes come back too; they are already applied
+      onChange: (event) => {
+        if (event.origin !== station.id) applyChange(event.change);
+      },
+      onStations: setStations,
+      onPlayback: setRemotePlayback,
+      // Changes pushed while the stream was down are lost; start again from the server's copy
+      onConnectionChange: (connected) => {
+        setIsServerConnected(connected);
+        if (!connected) hasDropped = true;
+        else if (hasDropped) {
+          api.fetchServerState()
+            .then(serverState => serverState && applyServerState(serverState))
+            .catch(error => console.error('Error reloading state from server:', error));
         }
-      } else {
-        console.warn("No audio data from Gemini, falling back to browser TTS");
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.lang = 'id-ID';
-        window.speechSynthesis.speak(utterance);
+      },
+    });
+  }, [isServerMode, station]);
+
+  // The leader tells the other stations what it is playing, so they can show it;
+  // sent again when a station joins
+  useEffect(() => {
+    if (!stations || !isLeader) return;
+    const status: PlaybackStatus = {
+      stationId: station.id,
+      current: queue.current?.label ?? null,
+      pending: queue.pending.map(job => job.label),
+    };
+    if (isServerMode) {
+      api.reportPlayback(status).catch(error => console.error('Error reporting playback to server:', error));
+    } else {
+      stationChannelRef.current?.reportPlayback(status);
+    }
+  }, [queue, isLeader, stations]);
+
+  // Everything audible goes through the announcement queue. Manual rings from
+  // the table are tests: they yield to real bells and are dropped if interrupted.
+  const triggerBell = (group: BellGroup, entries: BellLogEntry[]) => {
+    const isAuto = entries[0].trigger === 'auto';
+    announcementQueue.enqueue({
+      id: entries[0].id,
+      priority: isAuto ? 'scheduled' : 'test',
+      label: describeGroup(group),
+      enqueuedAt: new Date().toISOString(),
+      run: (signal) => playBell(group, entries, signal),
+      isStale: isAuto ? () => isTooLate(group.time, readClock(), settings) : undefined,
+      onDrop: (reason) => entries.forEach(entry => reason === 'stale'
+        ? handleMissedBell({ ...entry, missed: true, errors: [`Missed: waited in the queue until ${format(readClock(), 'HH:mm')}`] })
+        : recordBellLog({ ...entry, errors: [`Dropped: ${reason}`] })),
+    });
+  };
+  triggerBellRef.current = triggerBell;
+
+  const ringItemNow = (item: ScheduleItem) => {
+    if (!can('ring')) return;
+    const kind = BELL_TYPES[item.type].kind;
+    triggerBell({ kind, time: item.startTime, items: [item] }, [createLogEntry(item, kind, 'manual', readInstant(), settings.timezone)]);
+  };
+
+  const playBell = async (group: BellGroup, entries: BellLogEntry[], signal: AbortSignal) => {
+    // Anything the server noted (e.g. no browser connected) no longer applies once a browser plays it
+    const errors: string[] = [];
+    const providers: (TtsProviderId | null)[] = [];
+    const fallbackPath = new Set<TtsProviderId>();
+
+    try {
+      // 1. Start fetching and decoding the first clip while the chime plays
+      const texts = buildGroupAnnouncement(group, settings);
+      const prepared = prepareAnnouncement(texts[0], settings);
+
+      // 2. Play Chime Music First
+      const chimeError = await playChime(resolveChime(group.items[0], settings), signal, getFallbackChime(group.items[0]));
+      if (chimeError) errors.push(chimeError);
+
+      // 3. Speak each clip through the TTS fallback chain, back to back
+      for (const [i, text] of texts.entries()) {
+        if (signal.aborted) break;
+        const result = await speakAnnouncement(text, settings, i === 0 ? await prepared : null, signal);
+        if (!result.provider && !signal.aborted) {
+          console.error("Every TTS provider failed:", result.attempted);
+        }
+        providers.push(result.provider);
+        result.attempted.forEach(id => fallbackPath.add(id));
+        errors.push(...result.errors);
       }
     } catch (error) {
       console.error("Failed to trigger bell:", error);
+      errors.push(error instanceof Error ? error.message : String(error));
     } finally {
-      setIsAnnouncing(false);
+      if (signal.aborted) errors.push(`Aborted: ${signal.reason}`);
+      // Only counts as heard if every clip was spoken
+      const provider = providers.length > 0 && providers.every(Boolean) ? providers[0] : null;
+      entries.forEach(entry => recordBellLog({ ...entry, provider, fallbackPath: [...fallbackPath], errors }));
     }
   };
 
-  const handleAddSchedule = async (newItem: Omit<ScheduleItem, 'id' | 'isActive'>) => {
-    const item: ScheduleItem = {
-      ...newItem,
-      id: Math.random().toString(36).substr(2, 9),
-      isActive: true
-    };
-    
-    const newSchedule = [...schedule, item].sort((a, b) => a.startTime.localeCompare(b.startTime));
-    setSchedule(newSchedule);
-    setShowAddModal(false);
+  // Emergencies preempt whatever is playing; a normal broadcast waits its turn like a bell.
+  const enqueueBroadcast = (broadcast: Broadcast, entry: BellLogEntry) => {
+    announcementQueue.enqueue({
+      id: entry.id,
+      priority: broadcast.urgency === 'emergency' ? 'emergency' : 'scheduled',
+      label: broadcast.title,
+      enqueuedAt: new Date().toISOString(),
+      run: (signal) => playBroadcast(broadcast, entry, signal),
+      onDrop: (reason) => recordBellLog({ ...entry, errors: [`Dropped: ${reason}`] }),
+    });
+  };
+  broadcastRef.current = enqueueBroadcast;
 
-    if (supabase) {
+  const handleBroadcast = async (broadcast: Broadcast) => {
+    if (!can('broadcast')) return;
+    if (isServerMode) {
       try {
-        const { error } = await supabase.from('schedules').insert(item);
-        if (error) throw error;
+        await api.sendBroadcast(broadcast);
       } catch (error) {
-        console.error('Error adding schedule to Supabase:', error);
+        console.error('Error sending broadcast to server:', error);
+        alert('Gagal mengirim siaran ke server.');
       }
+    } else {
+      enqueueBroadcast(broadcast, createBroadcastEntry(broadcast, readInstant()));
     }
   };
 
-  const handleEditSchedule = async (updatedItem: ScheduleItem) => {
-    const newSchedule = schedule.map(item => item.id === updatedItem.id ? updatedItem : item).sort((a, b) => a.startTime.localeCompare(b.startTime));
-    setSchedule(newSchedule);
-    setEditingItem(null);
+  const playBroadcast = async (broadcast: Broadcast, entry: BellLogEntry, signal: AbortSignal) => {
+    const errors: string[] = [];
+    const providers: (TtsProviderId | null)[] = [];
+    const fallbackPath = new Set<TtsProviderId>();
+    const chime = findChime(settings, broadcast.chimeId) || BUILTIN_CHIMES[0];
 
-    if (supabase) {
+    try {
+      for (let i = 0; i < broadcast.repeat && !signal.aborted; i++) {
+        const chimeError = await playChime(chime, signal);
+        if (chimeError) errors.push(chimeError);
+        if (signal.aborted) break;
+        const result = await speakAnnouncement(broadcast.text, settings, null, signal);
+        providers.push(result.provider);
+        result.attempted.forEach(id => fallbackPath.add(id));
+        errors.push(...result.errors);
+      }
+    } catch (error) {
+      console.error("Failed to play broadcast:", error);
+      errors.push(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (signal.aborted) errors.push(`Aborted: ${signal.reason}`);
+      const provider = providers.length > 0 && providers.every(Boolean) ? providers[0] : null;
+      recordBellLog({ ...entry, provider, fallbackPath: [...fallbackPath], errors });
+    }
+  };
+
+  const handleMissedBell = (entry: BellLogEntry) => {
+    setMissedBells(prev => [...prev, entry]);
+    recordBellLog(entry);
+  };
+  missedBellRef.current = handleMissedBell;
+
+  const recordBellLog = async (entry: BellLogEntry) => {
+    if (isServerMode) {
+      try {
+        await api.saveBellLogEntry(entry);
+      } catch (error) {
+        console.error('Error saving bell log on server:', error);
+      }
+    } else if (supabase) {
       try {
-        const { error } = await supabase
-          .from('schedules')
-          .update(updatedItem)
-          .eq('id', updatedItem.id);
+        const { error } = await supabase.from('bell_log').upsert(entry);
         if (error) throw error;
       } catch (error) {
-        console.error('Error updating schedule in Supabase:', error);
+        console.error('Error saving bell log to Supabase:', error);
+        localStorage.setItem('school_bell_log', JSON.stringify(mergeLogEntry(loadLocalLog(), entry)));
       }
+    } else {
+      localStorage.setItem('school_bell_log', JSON.stringify(mergeLogEntry(loadLocalLog(), entry)));
     }
+    setLogVersion(v => v + 1);
   };
 
-  const handleDelete = async (id: string) => {
-    const newSchedule = schedule.filter(item => item.id !== id);
-    setSchedule(newSchedule);
-
+  // `from` and `to` are inclusive dates on the school's clock (yyyy-MM-dd)
+  const loadBellLog = async (from: string, to: string): Promise<BellLogEntry[]> => {
+    const start = fromSchoolTime(startOfDay(parse(from, 'yyyy-MM-dd', new Date())), settings.timezone).toISOString();
+    const end = fromSchoolTime(endOfDay(parse(to, 'yyyy-MM-dd', new Date())), settings.timezone).toISOString();
+    if (isServerMode) return api.fetchBellLog(start, end);
     if (supabase) {
+      const { data, error } = await supabase
+        .from('bell_log')
+        .select('*')
+        .gte('firedAt', start)
+        .lte('firedAt', end)
+        .order('firedAt', { ascending: false });
+      if (!error) return data || [];
+      console.error('Error fetching bell log from Supabase:', error);
+    }
+    return loadLocalLog().filter(entry => entry.firedAt >= start && entry.firedAt <= end);
+  };
+
+  const handleRegenerateAudio = async (item: ScheduleItem) => {
+    if (!can('ring')) return;
+    const synth = await getPrimarySynthesizer(settings);
+    if (!synth) return;
+    // The clips playBell speaks: a lesson sharing its minute with others is part of a combined announcement
+    const possible = profiles.flatMap(p => getPossibleGroups(p.items)).filter(group => group.items.some(i => i.id === item.id));
+    const groups = possible.length > 0 ? possible : getItemEvents(item).map(event => ({ kind: event.kind, time: event.time, items: [item] }));
+    for (const kind of new Set(groups.map(group => group.kind))) {
+      const id = `${item.id}:${kind}`;
+      setCacheStatus(prev => ({ ...prev, [id]: 'generating' }));
+      let isCached = true;
+      for (const group of groups.filter(g => g.kind === kind)) {
+        for (const text of buildGroupAnnouncement(group, settings)) {
+          const data = await ensureCachedAudio(toSpokenText(text, settings), synth, true).catch(() => undefined);
+          if (!data) isCached = false;
+        }
+      }
+      setCacheStatus(prev => ({ ...prev, [id]: isCached ? 'cached' : 'error' }));
+    }
+  };
+
+  // A row is only as ready as its least-ready bell event
+  const getItemCacheStatus = (item: ScheduleItem): AudioCacheStatus => {
+    const statuses = getItemEvents(item).map(event => cacheStatus[`${item.id}:${event.kind}`] || 'missing');
+    if (statuses.includes('generating')) return 'generating';
+    if (statuses.includes('error')) return 'error';
+    if (statuses.includes('missing')) return 'missing';
+    return 'cached';
+  };
+
+  const renderCacheBadge = (item: ScheduleItem) => {
+    const status = getItemCacheStatus(item);
+    return (
+      <span title={`Audio: ${status}`}>
+        {status === 'cached' && <CheckCircle2 size={14} className="text-emerald-500" />}
+        {status === 'generating' && <Loader2 size={14} className="text-indigo-400 animate-spin" />}
+        {(status === 'error' || status === 'missing') && <AlertTriangle size={14} className="text-amber-500" />}
+      </span>
+    );
+  };
+
+  const renderProblemBadge = (item: ScheduleItem) => {
+    const itemProblems = getItemProblems(scheduleProblems, item.id);
+    if (itemProblems.length === 0) return null;
+    return (
+      <span
+        title={describeProblems(itemProblems)}
+        className={`flex items-center gap-1 text-[9px] font-bold px-1.5 py-0.5 rounded ${hasErrors(itemProblems) ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-700'}`}
+      >
+        <AlertTriangle size={10} /> {itemProblems.length}
+      </span>
+    );
+  };
+
+  // Schedule edits, toggles and deletions all end up here
+  const saveProfile = async (profile: ScheduleProfile) => {
+    if (!can('edit')) return;
+    setProfiles(prev => prev.some(p => p.id === profile.id)
+      ? prev.map(p => p.id === profile.id ? profile : p)
+      : [...prev, profile]);
+
+    if (isServerMode) {
       try {
-        const { error } = await supabase
-          .from('schedules')
-          .delete()
-          .eq('id', id);
-        if (error) throw error;
+        await api.saveProfile(profile);
       } catch (error) {
-        console.error('Error deleting schedule from Supabase:', error);
+        console.error('Error saving profile on server:', error);
       }
+    } else if (sync) {
+      sync.enqueue('profiles', 'upsert', { ...profile, activateOn: profile.activateOn ?? null });
     }
   };
 
+  const handleDeleteProfile = async (id: string) => {
+    if (!can('edit') || id === settings.activeProfileId || profiles.length <= 1) return;
+    setProfiles(profiles.filter(p => p.id !== id));
+    if (viewedProfileId === id) setViewedProfileId(null);
+
+    if (isServerMode) {
+      try {
+        await api.deleteProfile(id);
+      } catch (error) {
+        console.error('Error deleting profile on server:', error);
+      }
+    } else if (sync) {
+      sync.enqueue('profiles', 'delete', { id });
+    }
+  };
+
+  const handleDuplicateProfile = (profile: ScheduleProfile, name: string) => {
+    const copy = duplicateProfile(profile, name);
+    saveProfile(copy);
+    setViewedProfileId(copy.id);
+  };
+
+  const handleAddSchedule = async (newItem: Omit<ScheduleItem, 'id' | 'isActive'>) => {
+    if (!viewedProfile) return;
+    const item: ScheduleItem = {
+      ...newItem,
+      id: Math.random().toString(36).substr(2, 9),
+      isActive: true
+    };
+    if (hasErrors(validateItem(item))) return;
+
+    setShowAddModal(false);
+    await saveProfile({ ...viewedProfile, items: sortItems([...viewedProfile.items, item]) });
+  };
+
+  const handleEditSchedule = async (updatedItem: ScheduleItem) => {
+    if (!viewedProfile || hasErrors(validateItem(updatedItem))) return;
+    setEditingItem(null);
+    await saveProfile({
+      ...viewedProfile,
+      items: sortItems(viewedProfile.items.map(item => item.id === updatedItem.id ? updatedItem : item)),
+    });
+  };
+
+  const handleImportSchedule = async (items: ScheduleItem[]) => {
+    if (!viewedProfile) return;
+    setShowImportModal(false);
+    await saveProfile({ ...viewedProfile, items });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!viewedProfile || !can('edit')) return;
+    await saveProfile({ ...viewedProfile, items: viewedProfile.items.filter(item => item.id !== id) });
+  };
+
   const toggleActive = async (id: string) => {
-    const itemToToggle = schedule.find(item => item.id === id);
-    if (!itemToToggle) return;
+    if (!viewedProfile || !can('edit')) return;
+    await saveProfile({
+      ...viewedProfile,
+      items: viewedProfile.items.map(item => item.id === id ? { ...item, isActive: !item.isActive } : item),
+    });
+  };
 
-    const updatedItem = { ...itemToToggle, isActive: !itemToToggle.isActive };
-    const newSchedule = schedule.map(item => item.id === id ? updatedItem : item);
-    setSchedule(newSchedule);
+  const handleAddCalendarEntry = async (newEntry: Omit<CalendarEntry, 'id'>) => {
+    if (!can('edit')) return;
+    const entry: CalendarEntry = {
+      ...newEntry,
+      id: Math.random().toString(36).substr(2, 9),
+    };
+    setCalendar(sortCalendar([...calendar, entry]));
 
-    if (supabase) {
+    if (isServerMode) {
       try {
-        const { error } = await supabase
-          .from('schedules')
-          .update({ isActive: updatedItem.isActive })
-          .eq('id', id);
-        if (error) throw error;
+        await api.saveCalendarEntry(entry);
       } catch (error) {
-        console.error('Error toggling active state in Supabase:', error);
+        console.error('Error adding calendar entry on server:', error);
       }
+    } else if (sync) {
+      sync.enqueue('calendar', 'upsert', entry);
     }
   };
 
-  const nextBell = schedule
-    .filter(i => i.isActive && i.startTime > format(currentTime, 'HH:mm'))
-    .sort((a, b) => a.startTime.localeCompare(b.startTime))[0];
+  const handleDeleteCalendarEntry = async (id: string) => {
+    if (!can('edit')) return;
+    setCalendar(calendar.filter(entry => entry.id !== id));
+
+    if (isServerMode) {
+      try {
+        await api.deleteCalendarEntry(id);
+      } catch (error) {
+        console.error('Error deleting calendar entry on server:', error);
+      }
+    } else if (sync) {
+      sync.enqueue('calendar', 'delete', { id });
+    }
+  };
+
+  const todayPlan = getDayPlan(currentTime, calendar);
+  const missedToday = missedBells.filter(entry => formatLogTime(entry.firedAt, 'yyyy-MM-dd', settings.timezone) === today);
+  const isDrifting = clockOffset !== null && Math.abs(clockOffset.offsetMs) > DRIFT_WARNING_MS;
+  const zoneDifference = getZoneDifference(new Date(), settings.timezone);
+  const todayItems = getScheduleForDate(profiles, currentTime, settings, calendar);
+  const nextEvent = getBellEvents(todayItems).find(event => event.time > format(currentTime, 'HH:mm'));
+  const schoolNow = getSchoolNow(todayItems, currentTime, settings.classes);
+
+  const currentWeek = getWeekRotation(currentTime, settings);
+  const visibleSchedule = selectedDay === null
+    ? schedule
+    : schedule.filter(item => item.days.includes(selectedDay));
+  const swappedProfile = profiles.find(p => p.id === todayPlan.profileId);
+  const scheduleProblems = validateSchedule(schedule);
+  const problemItemCount = new Set(scheduleProblems.map(problem => problem.itemId)).size;
+  const marqueeText = getMarqueeText(settings.marqueeMessages, currentTime);
+
+  if (kiosk) {
+    // Without other stations this display plays the bells itself
+    const announcement = isLeader ? queue.current?.label : remotePlayback?.stationId === leaderId && remotePlayback?.current;
+    return (
+      <KioskDisplay
+        schoolName={settings.schoolName}
+        now={currentTime}
+        timeZoneLabel={TIMEZONE_LABELS[settings.timezone]}
+        schoolNow={schoolNow}
+        plan={todayPlan}
+        nextEvent={nextEvent}
+        announcement={announcement || null}
+        marqueeText={marqueeText}
+        isConnected={isServerMode ? isServerConnected : navigator.onLine}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-indigo-50 text-slate-900 font-sans selection:bg-indigo-500 selection:text-white">
@@ -291,12 +937,17 @@ export default function App() {
         
         <div className="flex items-center gap-8">
           <div className="hidden sm:block text-[10px] uppercase tracking-widest bg-white/10 px-3 py-1 rounded-full border border-white/20">
-            <span className="opacity-70">Audio Status:</span> <span className="text-emerald-300 font-bold">Ready</span>
+            <span className="opacity-70">Audio Status:</span>{' '}
+            {isAudioBlocked
+              ? <span className="text-amber-300 font-bold">Blocked</span>
+              : <span className="text-emerald-300 font-bold">Ready</span>}
           </div>
+          {sync && syncStatus && <SyncIndicator status={syncStatus} onRetry={sync.retryNow} />}
           <div className="text-right">
             <div className="font-mono text-4xl tracking-tighter flex items-center gap-2 drop-shadow-md">
               <Clock size={28} />
               {format(currentTime, 'HH:mm:ss')}
+              <span className="text-sm font-bold opacity-70">{TIMEZONE_LABELS[settings.timezone]}</span>
             </div>
             <div className="text-[10px] uppercase tracking-widest opacity-80 font-mono">
               {format(currentTime, 'EEEE, dd MMMM yyyy')}
@@ -304,44 +955,133 @@ export default function App() {
           </div>
           
           <button 
-            onClick={() => updateSettings({ ...settings, isAutoEnabled: !settings.isAutoEnabled })}
-            className={`flex items-center gap-2 px-6 py-3 rounded-full shadow-lg transition-all transform active:scale-95 ${settings.isAutoEnabled ? 'bg-emerald-500 text-white hover:bg-emerald-600' : 'bg-rose-500 text-white hover:bg-rose-600'}`}
+            onClick={handleToggleAuto}
+            disabled={!can('toggleAuto')}
+            title={can('toggleAuto') ? undefined : 'Masuk sebagai operator atau admin untuk mengubah'}
+            className={`flex items-center gap-2 px-6 py-3 rounded-full shadow-lg transition-all transform active:scale-95 disabled:cursor-not-allowed disabled:active:scale-100 ${settings.isAutoEnabled ? 'bg-emerald-500 text-white hover:bg-emerald-600' : 'bg-rose-500 text-white hover:bg-rose-600'}`}
           >
             {settings.isAutoEnabled ? <Bell size={20} /> : <BellOff size={20} />}
             <span className="text-sm font-bold uppercase tracking-wider">
               {settings.isAutoEnabled ? 'Auto ON' : 'Auto OFF'}
             </span>
           </button>
+
+          <a
+            href="/kiosk"
+            target="_blank"
+            rel="noreferrer"
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 transition-all"
+            title="Layar Lorong"
+          >
+            <Monitor size={18} />
+          </a>
+
+          <div className="flex items-center gap-2">
+            <div className="text-right leading-tight">
+              <div className="text-sm font-bold">{user?.username || 'Tamu'}</div>
+              <div className="text-[10px] uppercase tracking-widest opacity-80">{ROLE_LABELS[user?.role || 'viewer']}</div>
+            </div>
+            <button
+              onClick={() => user ? handleSignOut() : setShowLogin(true)}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 transition-all"
+              title={user ? 'Keluar' : 'Masuk'}
+            >
+              {user ? <LogOut size={18} /> : <LogIn size={18} />}
+            </button>
+          </div>
         </div>
       </header>
 
+      {isAudioBlocked && (
+        <button
+          onClick={unlockAudio}
+          className="w-full flex items-center justify-center gap-2 bg-amber-400 text-indigo-950 py-2 text-sm font-bold uppercase tracking-widest hover:bg-amber-300 transition-all"
+        >
+          <VolumeX size={16} /> Suara diblokir browser, klik untuk mengaktifkan suara
+        </button>
+      )}
+
       {/* Running Text / Marquee */}
-      <div className="bg-amber-400 text-indigo-900 py-2 overflow-hidden border-b border-indigo-900/20 shadow-inner">
-        <div className="whitespace-nowrap animate-marquee font-bold uppercase tracking-[0.2em] text-sm">
-          Selamat Datang di SMP ISLAM ARRAUDHOH Kec. Klapanunggal Kab. Bogor — Selamat Datang di SMP ISLAM ARRAUDHOH Kec. Klapanunggal Kab. Bogor — Selamat Datang di SMP ISLAM ARRAUDHOH Kec. Klapanunggal Kab. Bogor
-        </div>
-      </div>
+      <RunningText text={marqueeText} />
 
       <main className="max-w-7xl mx-auto p-6 grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Schedule Table */}
         <section className="lg:col-span-2 space-y-6">
+          {!todayPlan.holiday && (
+            <NowGrid schoolNow={schoolNow} items={todayItems} teachers={settings.teachers} now={currentTime} />
+          )}
+
           <div className="flex justify-between items-end border-b-2 border-indigo-100 pb-3">
             <div className="flex items-center gap-2">
               <Calendar className="text-indigo-500" />
               <h2 className="font-serif italic text-2xl text-indigo-900">Jadwal Pelajaran</h2>
+              {problemItemCount > 0 && (
+                <span
+                  title={describeProblems(scheduleProblems)}
+                  className={`flex items-center gap-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${hasErrors(scheduleProblems) ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-700'}`}
+                >
+                  <AlertTriangle size={12} /> {problemItemCount} masalah
+                </span>
+              )}
             </div>
-            <button 
-              onClick={() => setShowAddModal(true)}
-              className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg shadow-md hover:bg-indigo-700 transition-all transform hover:-translate-y-0.5"
+            {can('edit') && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  disabled={!viewedProfile}
+                  className="flex items-center gap-2 bg-white text-indigo-600 px-4 py-2 rounded-lg shadow-md hover:bg-indigo-50 transition-all transform hover:-translate-y-0.5 disabled:opacity-50"
+                >
+                  <FileSpreadsheet size={20} />
+                  <span className="text-xs font-bold uppercase">Impor / Ekspor</span>
+                </button>
+                <button 
+                  onClick={() => setShowAddModal(true)}
+                  className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg shadow-md hover:bg-indigo-700 transition-all transform hover:-translate-y-0.5"
+                >
+                  <Plus size={20} />
+                  <span className="text-xs font-bold uppercase">Tambah</span>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {viewedProfile && (
+            <ProfileBar
+              profiles={profiles}
+              activeProfileId={activeProfile?.id || ''}
+              viewedProfileId={viewedProfile.id}
+              onView={setViewedProfileId}
+              onActivate={(id) => updateSettings({ ...settings, activeProfileId: id })}
+              onDuplicate={handleDuplicateProfile}
+              onSave={saveProfile}
+              onDelete={handleDeleteProfile}
+              readOnly={!can('edit')}
+            />
+          )}
+
+          {/* Day Filter */}
+          <div className="flex flex-wrap gap-2">
+            {[...SCHOOL_DAYS, 0].map(day => (
+              <button
+                key={day}
+                onClick={() => setSelectedDay(day)}
+                className={`px-4 py-1.5 rounded-full text-[11px] font-bold uppercase tracking-wider transition-all ${selectedDay === day ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-indigo-400 hover:bg-indigo-100'}`}
+              >
+                {DAY_LABELS[day]}
+                {day === getDay(currentTime) && <span className="ml-1 opacity-70">•</span>}
+              </button>
+            ))}
+            <button
+              onClick={() => setSelectedDay(null)}
+              className={`px-4 py-1.5 rounded-full text-[11px] font-bold uppercase tracking-wider transition-all ${selectedDay === null ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-indigo-400 hover:bg-indigo-100'}`}
             >
-              <Plus size={20} />
-              <span className="text-xs font-bold uppercase">Tambah</span>
+              Semua
             </button>
           </div>
 
           <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-indigo-50">
             {/* Table Header */}
-            <div className="grid grid-cols-[60px_1fr_1fr_1.5fr_1.5fr_120px] p-5 bg-indigo-50/50 text-[11px] uppercase tracking-widest font-bold text-indigo-400">
+            <div className="grid grid-cols-[60px_1fr_1fr_1.5fr_1.5fr_170px] p-5 bg-indigo-50/50 text-[11px] uppercase tracking-widest font-bold text-indigo-400">
               <div>Jam</div>
               <div>Waktu</div>
               <div>Kelas</div>
@@ -351,100 +1091,235 @@ export default function App() {
             </div>
 
             <div className="divide-y divide-indigo-50">
-              {schedule.length === 0 ? (
+              {visibleSchedule.length === 0 ? (
                 <div className="p-16 text-center text-slate-400 italic font-serif text-lg">Belum ada jadwal yang ditambahkan.</div>
               ) : (
-                schedule.map((item) => (
+                visibleSchedule.map((item) => (
                   <motion.div 
                     layout
                     key={item.id}
-                    className={`grid grid-cols-[60px_1fr_1fr_1.5fr_1.5fr_120px] p-5 items-center transition-all group ${!item.isActive ? 'opacity-40 grayscale bg-slate-50' : 'hover:bg-indigo-50/30'}`}
+                    className={`grid grid-cols-[60px_1fr_1fr_1.5fr_1.5fr_170px] p-5 items-center transition-all group ${!item.isActive ? 'opacity-40 grayscale bg-slate-50' : 'hover:bg-indigo-50/30'}`}
                   >
-                    <div className="font-mono text-xl font-bold text-indigo-600">{item.period}</div>
-                    <div className="font-mono text-sm bg-indigo-50 text-indigo-700 px-2 py-1 rounded w-fit">{item.startTime} - {item.endTime}</div>
-                    <div className="font-bold text-indigo-500">{item.className}</div>
-                    <div className="flex flex-col">
-                      <span className="text-[10px] uppercase font-bold text-indigo-400 leading-none mb-1">{item.gender}</span>
-                      <span className="font-bold text-slate-700">{item.teacher}</span>
+                    {item.type === 'lesson' ? (
+                      <div className="font-mono text-xl font-bold text-indigo-600">{item.period}</div>
+                    ) : (
+                      <div><span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${BELL_TYPES[item.type].color}`}>{BELL_TYPES[item.type].label}</span></div>
+                    )}
+                    <div className="flex flex-col gap-1">
+                      <div className="flex items-center gap-1">
+                        <div className="font-mono text-sm bg-indigo-50 text-indigo-700 px-2 py-1 rounded w-fit">{item.startTime} - {item.endTime}</div>
+                        {renderProblemBadge(item)}
+                      </div>
+                      <div className="text-[10px] uppercase font-bold text-indigo-300">
+                        {formatDays(item.days)}
+                        {item.rotation && <span className="ml-1 bg-amber-100 text-amber-700 px-1.5 rounded">Minggu {item.rotation}</span>}
+                        {item.type === 'lesson' && item.ringAtEnd && <span className="ml-1 bg-indigo-100 text-indigo-500 px-1.5 rounded">+ Bel Selesai</span>}
+                      </div>
                     </div>
-                    <div className="italic font-serif text-lg text-slate-600">{item.subject}</div>
+                    {item.type === 'lesson' ? (
+                      <>
+                        <div className="font-bold text-indigo-500">{item.className}</div>
+                        <div className="flex flex-col">
+                          <span className="text-[10px] uppercase font-bold text-indigo-400 leading-none mb-1">{item.gender}</span>
+                          <span className="font-bold text-slate-700">{item.teacher}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="italic font-serif text-lg text-slate-600">{item.subject}</span>
+                          {item.isActive && renderCacheBadge(item)}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="col-span-3 flex items-center gap-2">
+                        <span className="italic font-serif text-lg text-slate-600">{describeItem(item)}</span>
+                        {item.isActive && renderCacheBadge(item)}
+                      </div>
+                    )}
                     <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button 
-                        onClick={() => triggerBell(item)}
-                        className="p-2 rounded-full bg-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all"
-                        title="Test Bell"
-                      >
-                        <Play size={14} fill="currentColor" />
-                      </button>
-                      <button 
-                        onClick={() => setEditingItem(item)}
-                        className="p-2 rounded-full bg-amber-100 text-amber-600 hover:bg-amber-500 hover:text-white transition-all"
-                        title="Edit"
-                      >
-                        <SettingsIcon size={14} />
-                      </button>
-                      <button 
-                        onClick={() => toggleActive(item.id)}
-                        className={`p-2 rounded-full transition-all ${item.isActive ? 'bg-blue-100 text-blue-600 hover:bg-blue-500 hover:text-white' : 'bg-slate-200 text-slate-600 hover:bg-slate-500 hover:text-white'}`}
-                        title={item.isActive ? "Deactivate" : "Activate"}
-                      >
-                        {item.isActive ? <Bell size={14} /> : <BellOff size={14} />}
-                      </button>
-                      <button 
-                        onClick={() => handleDelete(item.id)}
-                        className="p-2 rounded-full bg-rose-100 text-rose-600 hover:bg-rose-500 hover:text-white transition-all"
-                        title="Delete"
-                      >
-                        <Trash2 size={14} />
-                      </button>
+                      {can('ring') && (
+                        <>
+                          <button 
+                            onClick={() => ringItemNow(item)}
+                            className="p-2 rounded-full bg-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all"
+                            title="Test Bell"
+                          >
+                            <Play size={14} fill="currentColor" />
+                          </button>
+                          <button
+                            onClick={() => handleRegenerateAudio(item)}
+                            disabled={getItemCacheStatus(item) === 'generating'}
+                            className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-500 hover:text-white transition-all disabled:opacity-50"
+                            title="Regenerate Audio"
+                          >
+                            <RefreshCw size={14} />
+                          </button>
+                        </>
+                      )}
+                      {can('edit') && (
+                        <>
+                          <button 
+                            onClick={() => setEditingItem(item)}
+                            className="p-2 rounded-full bg-amber-100 text-amber-600 hover:bg-amber-500 hover:text-white transition-all"
+                            title="Edit"
+                          >
+                            <SettingsIcon size={14} />
+                          </button>
+                          <button 
+                            onClick={() => toggleActive(item.id)}
+                            className={`p-2 rounded-full transition-all ${item.isActive ? 'bg-blue-100 text-blue-600 hover:bg-blue-500 hover:text-white' : 'bg-slate-200 text-slate-600 hover:bg-slate-500 hover:text-white'}`}
+                            title={item.isActive ? "Deactivate" : "Activate"}
+                          >
+                            {item.isActive ? <Bell size={14} /> : <BellOff size={14} />}
+                          </button>
+                          <button 
+                            onClick={() => handleDelete(item.id)}
+                            className="p-2 rounded-full bg-rose-100 text-rose-600 hover:bg-rose-500 hover:text-white transition-all"
+                            title="Delete"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </motion.div>
                 ))
               )}
             </div>
           </div>
+
+          {!isLoading && <BellLogPanel version={logVersion} onLoad={loadBellLog} timeZone={settings.timezone} />}
         </section>
 
         {/* Sidebar / Settings */}
         <aside className="space-y-8">
-          <div className="bg-white rounded-2xl shadow-xl p-6 space-y-6 border border-indigo-50">
-            <div className="flex items-center gap-2 border-b-2 border-indigo-50 pb-3">
-              <SettingsIcon className="text-indigo-500" size={20} />
-              <h2 className="font-serif italic text-xl text-indigo-900">Pengaturan</h2>
-            </div>
+          {!isLoading && can('broadcast') && (
+            <BroadcastConsole
+              settings={settings}
+              onBroadcast={handleBroadcast}
+              onSaveMessages={can('edit') ? (savedBroadcasts) => updateSettings({ ...settings, savedBroadcasts }) : undefined}
+            />
+          )}
 
-            <div className="space-y-5">
-              <div className="space-y-2">
-                <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Nama Sekolah</label>
-                <input 
-                  type="text" 
-                  value={settings.schoolName}
-                  onChange={(e) => updateSettings({ ...settings, schoolName: e.target.value })}
-                  className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 transition-all"
-                />
-              </div>
+          {can('edit') && (
+            <>
+              <div className="bg-white rounded-2xl shadow-xl p-6 space-y-6 border border-indigo-50">
+                <div className="flex items-center gap-2 border-b-2 border-indigo-50 pb-3">
+                  <SettingsIcon className="text-indigo-500" size={20} />
+                  <h2 className="font-serif italic text-xl text-indigo-900">Pengaturan</h2>
+                </div>
 
-              <div className="space-y-2">
-                <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Suara Pengumuman</label>
-                <div className="relative">
-                  <select 
-                    value={settings.voiceName}
-                    onChange={(e) => updateSettings({ ...settings, voiceName: e.target.value as any })}
-                    className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 appearance-none cursor-pointer transition-all"
-                  >
-                    <option value="Kore">Kore (Standard)</option>
-                    <option value="Puck">Puck (Deep)</option>
-                    <option value="Charon">Charon (Calm)</option>
-                    <option value="Fenrir">Fenrir (Bold)</option>
-                    <option value="Zephyr">Zephyr (Light)</option>
-                  </select>
-                  <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-indigo-400">
-                    <Volume2 size={16} />
+                <div className="space-y-5">
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Nama Sekolah</label>
+                    <input 
+                      type="text" 
+                      value={settings.schoolName}
+                      onChange={(e) => updateSettings({ ...settings, schoolName: e.target.value })}
+                      className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 transition-all"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Zona Waktu Sekolah</label>
+                    <select
+                      value={settings.timezone}
+                      onChange={(e) => updateSettings({ ...settings, timezone: e.target.value as SchoolTimezone })}
+                      className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 appearance-none cursor-pointer transition-all"
+                    >
+                      {SCHOOL_TIMEZONES.map(zone => <option key={zone} value={zone}>{TIMEZONE_LABELS[zone]} ({zone})</option>)}
+                    </select>
+                    <p className="text-[10px] text-slate-400">
+                      {clockOffset
+                        ? `Jam dikoreksi ${clockOffset.offsetMs >= 0 ? '+' : '-'}${formatDrift(clockOffset.offsetMs)} menurut ${clockOffset.source === 'server' ? 'server bel' : 'server web'}.`
+                        : 'Jam perangkat ini dipakai apa adanya.'}
+                    </p>
+                  </div>
+
+                  <TtsSettings
+                    settings={settings}
+                    onChange={(changes) => updateSettings({ ...settings, ...changes })}
+                  />
+
+                  <div className="space-y-2">
+                    <label className="flex items-center justify-between text-[10px] uppercase tracking-widest font-bold text-indigo-400">
+                      <span>Rotasi Minggu A/B</span>
+                      <input
+                        type="checkbox"
+                        checked={settings.isRotationEnabled}
+                        onChange={(e) => updateSettings({ ...settings, isRotationEnabled: e.target.checked })}
+                        className="accent-indigo-600 w-4 h-4 cursor-pointer"
+                      />
+                    </label>
+                    {settings.isRotationEnabled && (
+                      <div className="space-y-1">
+                        <input
+                          type="date"
+                          value={settings.rotationAnchorDate}
+                          onChange={(e) => updateSettings({ ...settings, rotationAnchorDate: e.target.value })}
+                          className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 transition-all"
+                        />
+                        <p className="text-[10px] text-slate-400">Tanggal mana pun di dalam Minggu A. Minggu ini: <span className="font-bold text-indigo-500">Minggu {currentWeek}</span></p>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Bel Terlewat</label>
+                    <div className="grid grid-cols-[1fr_80px] gap-2">
+                      <select
+                        value={settings.missedBellPolicy}
+                        onChange={(e) => updateSettings({ ...settings, missedBellPolicy: e.target.value as MissedBellPolicy })}
+                        className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 appearance-none cursor-pointer transition-all"
+                      >
+                        <option value="ring-late">Bunyikan terlambat</option>
+                        <option value="queue">Antre setelah pengumuman</option>
+                        <option value="log">Catat saja</option>
+                      </select>
+                      <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={settings.lateRingWindow}
+                        onChange={(e) => updateSettings({ ...settings, lateRingWindow: Math.max(1, parseInt(e.target.value) || 1) })}
+                        disabled={settings.missedBellPolicy !== 'ring-late'}
+                        className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-500 transition-all disabled:opacity-40"
+                        title="Batas keterlambatan (menit)"
+                      />
+                    </div>
+                    <p className="text-[10px] text-slate-400">
+                      {settings.missedBellPolicy === 'ring-late' && `Bel yang terlewat tetap dibunyikan bila belum lewat ${settings.lateRingWindow} menit.`}
+                      {settings.missedBellPolicy === 'queue' && 'Bel yang jatuh saat pengumuman lain berbunyi diputar sesudahnya.'}
+                      {settings.missedBellPolicy === 'log' && 'Bel yang terlewat hanya dicatat di riwayat.'}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Panjang Maks. Pengumuman Gabungan</label>
+                    <input
+                      type="number"
+                      min={100}
+                      max={2000}
+                      step={50}
+                      value={settings.maxAnnouncementLength}
+                      onChange={(e) => updateSettings({ ...settings, maxAnnouncementLength: Math.max(100, parseInt(e.target.value) || 100) })}
+                      className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 transition-all"
+                    />
+                    <p className="text-[10px] text-slate-400">Kelas yang mulai pada menit yang sama diumumkan bersama; teks lebih panjang dari ini (karakter) dipecah menjadi beberapa bagian.</p>
                   </div>
                 </div>
               </div>
-            </div>
-          </div>
+
+              <TemplateEditor
+                settings={settings}
+                onSave={(changes) => updateSettings({ ...settings, ...changes })}
+              />
+
+              <ChimeLibrary
+                settings={settings}
+                isServerMode={isServerMode}
+                onChange={(changes) => updateSettings({ ...settings, ...changes })}
+              />
+            </>
+          )}
 
           <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 rounded-2xl shadow-xl p-6 text-white space-y-5 relative overflow-hidden">
             <div className="absolute -right-8 -top-8 opacity-10 rotate-12">
@@ -463,18 +1338,90 @@ export default function App() {
                   {settings.isAutoEnabled ? 'RUNNING' : 'STOPPED'}
                 </span>
               </div>
+              <div className="flex justify-between items-center bg-white/10 rounded-lg p-3">
+                <span className="text-xs font-bold uppercase tracking-wider opacity-70">Server:</span>
+                <span className={`text-xs font-bold px-3 py-1 rounded-full ${!isServerMode ? 'bg-white/10 text-indigo-200' : isServerConnected ? 'bg-emerald-400/20 text-emerald-300' : 'bg-amber-400/20 text-amber-300'}`}>
+                  {!isServerMode ? 'LOKAL' : isServerConnected ? 'TERHUBUNG' : 'TERPUTUS'}
+                </span>
+              </div>
+              {isDrifting && clockOffset && (
+                <div className="flex items-start gap-2 bg-amber-400/20 text-amber-200 rounded-lg p-3">
+                  <AlertTriangle size={16} className="shrink-0" />
+                  <span className="text-[11px]">
+                    Jam perangkat ini {clockOffset.offsetMs > 0 ? 'terlambat' : 'terlalu cepat'} {formatDrift(clockOffset.offsetMs)} dibanding
+                    jam {clockOffset.source === 'server' ? 'server bel' : 'server web'}. Bel tetap mengikuti jam yang sudah dikoreksi.
+                  </span>
+                </div>
+              )}
+              {zoneDifference !== 0 && (
+                <div className="flex items-start gap-2 bg-white/10 text-indigo-100 rounded-lg p-3">
+                  <Clock size={16} className="shrink-0" />
+                  <span className="text-[11px]">
+                    Zona waktu perangkat ini berbeda {Math.abs(zoneDifference / 60)} jam dari {TIMEZONE_LABELS[settings.timezone]}.
+                    Jadwal tetap mengikuti {TIMEZONE_LABELS[settings.timezone]}.
+                  </span>
+                </div>
+              )}
+              {missedToday.length > 0 && (
+                <div className="bg-amber-400/20 text-amber-200 rounded-lg p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider">
+                      <AlertTriangle size={16} />
+                      {missedToday.length} Bel Terlewat
+                    </span>
+                    <button onClick={() => setMissedBells([])} className="text-[10px] font-bold uppercase opacity-70 hover:opacity-100">
+                      Tutup
+                    </button>
+                  </div>
+                  {missedToday.map(entry => (
+                    <div key={entry.id} className="text-[10px] font-mono">
+                      {entry.scheduledAt && formatLogTime(entry.scheduledAt, 'HH:mm', settings.timezone)} {entry.itemLabel}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-between items-center bg-white/10 rounded-lg p-3">
+                <span className="text-xs font-bold uppercase tracking-wider opacity-70">Profil:</span>
+                <span className="font-bold text-indigo-200 text-sm">{(swappedProfile || activeProfile)?.name || '-'}</span>
+              </div>
+              <div className="flex justify-between items-center bg-white/10 rounded-lg p-3">
+                <span className="text-xs font-bold uppercase tracking-wider opacity-70">Hari:</span>
+                <span className="font-mono font-bold text-indigo-200">
+                  {DAY_LABELS[getDay(currentTime)]}{currentWeek && ` / Minggu ${currentWeek}`}
+                </span>
+              </div>
+              {todayPlan.holiday && (
+                <div className="flex items-center gap-2 bg-rose-400/20 text-rose-200 rounded-lg p-3">
+                  <CalendarOff size={16} />
+                  <span className="text-xs font-bold uppercase tracking-wider">Libur: {todayPlan.holiday.reason}</span>
+                </div>
+              )}
+              {todayPlan.special && (
+                <div className="flex flex-col gap-1 bg-amber-400/20 text-amber-200 rounded-lg p-3">
+                  <span className="text-xs font-bold uppercase tracking-wider">Hari Khusus: {todayPlan.special.reason}</span>
+                  <span className="text-[10px] opacity-80">
+                    Menggunakan jadwal hari {DAY_LABELS[todayPlan.weekday]}{swappedProfile && ` (profil ${swappedProfile.name})`}
+                  </span>
+                </div>
+              )}
               <div className="flex flex-col gap-1 bg-white/10 rounded-lg p-3">
                 <div className="flex justify-between items-center">
                   <span className="text-xs font-bold uppercase tracking-wider opacity-70">Bel Berikutnya:</span>
                   <span className="font-mono font-bold text-indigo-200">
-                    {nextBell?.startTime || '--:--'}
+                    {nextEvent?.time || '--:--'}
                   </span>
                 </div>
-                {nextBell && (
+                {nextEvent && (
                   <div className="mt-2 pt-2 border-t border-white/10">
-                    <div className="text-[10px] uppercase font-bold text-indigo-300">Jam Ke {nextBell.period} - Kelas {nextBell.className}</div>
-                    <div className="text-sm font-serif italic">{nextBell.subject}</div>
-                    <div className="text-[10px] opacity-70">{nextBell.teacher}</div>
+                    <div className="text-[10px] uppercase font-bold text-indigo-300">
+                      {nextEvent.kind === 'end' ? 'Selesai ' : ''}{describeItem(nextEvent.item)}
+                    </div>
+                    {nextEvent.item.type === 'lesson' && (
+                      <>
+                        <div className="text-sm font-serif italic">{nextEvent.item.subject}</div>
+                        <div className="text-[10px] opacity-70">{nextEvent.item.teacher}</div>
+                      </>
+                    )}
                   </div>
                 )}
               </div>
@@ -484,7 +1431,7 @@ export default function App() {
               </div>
             </div>
 
-            {isAnnouncing && (
+            {queue.current && (
               <motion.div 
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -500,109 +1447,143 @@ export default function App() {
                     />
                   ))}
                 </div>
-                <span className="text-[10px] uppercase tracking-widest font-black">Broadcasting...</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-[10px] uppercase tracking-widest font-black">Broadcasting...</div>
+                  <div className="text-xs truncate">{queue.current.label}</div>
+                </div>
+                {can('ring') && (
+                  <button
+                    onClick={() => announcementQueue.skip()}
+                    className="p-2 rounded-full bg-emerald-400/20 hover:bg-emerald-400/40 transition-all"
+                    title="Lewati"
+                  >
+                    <SkipForward size={14} />
+                  </button>
+                )}
               </motion.div>
             )}
-          </div>
-        </aside>
-      </main>
 
-      {/* Add/Edit Modal */}
-      <AnimatePresence>
-        {(showAddModal || editingItem) && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-indigo-900/60 backdrop-blur-md">
-            <motion.div 
-              initial={{ scale: 0.9, opacity: 0, y: 20 }}
-              animate={{ scale: 1, opacity: 1, y: 0 }}
-              exit={{ scale: 0.9, opacity: 0, y: 20 }}
-              className="bg-white rounded-3xl shadow-2xl p-8 w-full max-w-md space-y-6 border border-indigo-50"
-            >
-              <div className="flex justify-between items-center border-b-2 border-indigo-50 pb-4">
-                <h3 className="font-serif italic text-3xl text-indigo-900">
-                  {editingItem ? 'Edit Jadwal' : 'Tambah Jadwal'}
-                </h3>
-                <button onClick={() => { setShowAddModal(false); setEditingItem(null); }} className="text-slate-400 hover:text-rose-500 transition-colors">
-                  <Trash2 size={24} />
-                </button>
-              </div>
-              
-              <form onSubmit={(e) => {
-                e.preventDefault();
-                const formData = new FormData(e.currentTarget);
-                const data = {
-                  period: parseInt(formData.get('period') as string),
-                  startTime: formData.get('startTime') as string,
-                  endTime: formData.get('endTime') as string,
-                  teacher: formData.get('teacher') as string,
-                  gender: formData.get('gender') as 'Bapak' | 'Ibu',
-                  subject: formData.get('subject') as string,
-                  className: formData.get('className') as string,
-                };
-
-                if (editingItem) {
-                  handleEditSchedule({ ...editingItem, ...data });
-                } else {
-                  handleAddSchedule(data);
-                }
-              }} className="space-y-5">
-                <div className="grid grid-cols-3 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Jam Ke</label>
-                    <input name="period" type="number" defaultValue={editingItem?.period} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Kelas</label>
-                    <input name="className" type="text" defaultValue={editingItem?.className} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500" placeholder="Contoh: X-A" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Mata Pelajaran</label>
-                    <input name="subject" type="text" defaultValue={editingItem?.subject} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500" />
+            {remotePlayback && !isLeader && remotePlayback.stationId === leaderId && (remotePlayback.current || remotePlayback.pending.length > 0) && (
+              <div className="pt-2 flex items-center gap-3 text-emerald-300 bg-emerald-400/10 p-3 rounded-xl border border-emerald-400/20">
+                <Volume2 size={16} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-[10px] uppercase tracking-widest font-black">
+                    Di {stations?.stations.find(s => s.id === leaderId)?.name || 'stasiun utama'}
                   </div>
+                  <div className="text-xs truncate">{remotePlayback.current || 'Menunggu...'}</div>
+                  {remotePlayback.pending.length > 0 && (
+                    <div className="text-[10px] opacity-70 truncate">Antrean: {remotePlayback.pending.join(', ')}</div>
+                  )}
                 </div>
+              </div>
+            )}
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Waktu Mulai</label>
-                    <input name="startTime" type="time" defaultValue={editingItem?.startTime} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Waktu Selesai</label>
-                    <input name="endTime" type="time" defaultValue={editingItem?.endTime} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500" />
+            {queue.pending.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-[10px] uppercase tracking-widest font-bold opacity-70">Antrean ({queue.pending.length})</span>
+                {queue.pending.map(job => (
+                  <div key={job.id} className="flex items-center gap-2 bg-white/10 rounded-lg px-3 py-2">
+                    <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full ${PRIORITY_STYLES[job.priority].className}`}>
+                      {PRIORITY_STYLES[job.priority].label}
+                    </span>
+                    <span className="flex-1 text-xs truncate">{job.label}</span>
+                    {can('ring') && (
+                      <button
+                        onClick={() => announcementQueue.cancel(job.id)}
+                        className="opacity-60 hover:opacity-100 hover:text-rose-300 transition-all"
+                        title="Batalkan"
+                      >
+                        <X size={14} />
+                      </button>
+                    )}
                   </div>
-                </div>
+                ))}
+              </div>
+            )}
+          </div>
 
-                <div className="grid grid-cols-3 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Bapak/Ibu</label>
-                    <select name="gender" defaultValue={editingItem?.gender} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 appearance-none cursor-pointer">
-                      <option value="Bapak">Bapak</option>
-                      <option value="Ibu">Ibu</option>
-                    </select>
-                  </div>
-                  <div className="col-span-2 space-y-2">
-                    <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Nama Guru</label>
-                    <input name="teacher" type="text" defaultValue={editingItem?.teacher} required className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500" />
-                  </div>
-                </div>
+          {!isLoading && can('edit') && (
+            <MasterDataPanel
+              master={settings}
+              profiles={profiles}
+              onChange={(changes) => updateSettings({ ...settings, ...changes })}
+            />
+          )}
 
-                <div className="flex gap-4 pt-4">
-                  <button 
-                    type="submit"
-                    className="flex-1 bg-indigo-600 text-white py-4 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all transform active:scale-95"
-                  >
-                    {editingItem ? 'Simpan Perubahan' : 'Simpan Jadwal'}
-                  </button>
-                  <button 
-                    type="button"
-                    onClick={() => { setShowAddModal(false); setEditingItem(null); }}
-                    className="flex-1 bg-slate-100 text-slate-600 py-4 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-slate-200 transition-all"
-                  >
-                    Batal
-                  </button>
-                </div>
-              </form>
-            </motion.div>
-          </div>
+          {!isLoading && can('edit') && (
+            <PronunciationEditor
+              settings={settings}
+              onChange={(pronunciations) => updateSettings({ ...settings, pronunciations })}
+            />
+          )}
+
+          {can('edit') && (
+            <MarqueeEditor
+              messages={settings.marqueeMessages}
+              now={currentTime}
+              onChange={(marqueeMessages) => updateSettings({ ...settings, marqueeMessages })}
+            />
+          )}
+
+          {can('edit') && (
+            <CalendarPanel
+              calendar={calendar}
+              profiles={profiles}
+              onAdd={handleAddCalendarEntry}
+              onDelete={handleDeleteCalendarEntry}
+            />
+          )}
+
+          {stations && (
+            <StationPanel
+              station={station}
+              stations={stations.stations}
+              leaderId={leaderId}
+              primaryStationId={settings.primaryStationId}
+              canDesignate={can('edit')}
+              onStationChange={handleStationChange}
+              onDesignate={(primaryStationId) => updateSettings({ ...settings, primaryStationId })}
+            />
+          )}
+
+          {user && can('manageUsers') && auth.canManageUsers(authMode) && (
+            <UserManager mode={authMode} currentUser={user} />
+          )}
+        </aside>
+      </main>
+
+      {/* Add/Edit Modal */}
+      <AnimatePresence>
+        {(showAddModal || editingItem) && (
+          <ScheduleModal
+            item={editingItem}
+            items={schedule}
+            master={settings}
+            chimes={getAllChimes(settings)}
+            onSubmit={(data) => {
+              if (editingItem) {
+                handleEditSchedule({ ...editingItem, ...data });
+              } else {
+                handleAddSchedule(data);
+              }
+            }}
+            onClose={() => { setShowAddModal(false); setEditingItem(null); }}
+          />
+        )}
+        {showLogin && (
+          <LoginModal
+            mode={authMode}
+            needsSetup={needsSetup}
+            onSignedIn={handleSignedIn}
+            onClose={() => setShowLogin(false)}
+          />
+        )}
+        {showImportModal && viewedProfile && (
+          <TimetableImport
+            profile={viewedProfile}
+            onImport={handleImportSchedule}
+            onClose={() => setShowImportModal(false)}
+          />
         )}
       </AnimatePresence>
 
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { History, Download, Loader2, RefreshCw } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { BellLogEntry, BellTrigger, BellType, SchoolTimezone } from '../types';
+import { BELL_TYPES } from '../utils/bells';
+import { BellLogFilter, BellLogStatus, filterLog, formatLogTime, getLogKindLabel, getLogStatus, getLogTypeLabel, logToCsvRows } from '../utils/bellLog';
+import { toSchoolTime } from '../utils/clock';
+import { downloadCsv } from '../utils/csv';
+
+interface BellLogPanelProps {
+  version: number; // bumped whenever a new entry is recorded
+  onLoad: (from: string, to: string) => Promise<BellLogEntry[]>;
+  timeZone: SchoolTimezone;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-xs focus:outline-none focus:border-indigo-500 transition-all";
+
+const STATUS_STYLES: Record<BellLogStatus, { label: string; className: string }> = {
+  ok: { label: 'Berhasil', className: 'bg-emerald-100 text-emerald-600' },
+  fallback: { label: 'Fallback', className: 'bg-amber-100 text-amber-600' },
+  failed: { label: 'Gagal', className: 'bg-rose-100 text-rose-600' },
+  missed: { label: 'Terlewat', className: 'bg-slate-200 text-slate-600' },
+};
+
+export default function BellLogPanel({ version, onLoad, timeZone }: BellLogPanelProps) {
+  const now = toSchoolTime(new Date(), timeZone);
+  const today = format(now, 'yyyy-MM-dd');
+  const [filter, setFilter] = useState<BellLogFilter>({ from: format(subDays(now, 6), 'yyyy-MM-dd'), to: today });
+  const [entries, setEntries] = useState<BellLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await onLoad(filter.from, filter.to));
+    } catch (error) {
+      console.error('Error loading bell log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [filter.from, filter.to, version]);
+
+  const visible = filterLog(entries, filter, timeZone);
+  const update = (changes: Partial<BellLogFilter>) => setFilter({ ...filter, ...changes });
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <History className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Riwayat Bel</h2>
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={load}
+            className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all"
+            title="Muat Ulang"
+          >
+            {isLoading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          </button>
+          <button
+            onClick={() => downloadCsv(`riwayat-bel-${filter.from}_${filter.to}.csv`, logToCsvRows(visible, timeZone))}
+            disabled={visible.length === 0}
+            className="p-2 rounded-full bg-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all disabled:opacity-50"
+            title="Ekspor CSV"
+          >
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        <input type="date" value={filter.from} max={filter.to} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+        <input type="date" value={filter.to} min={filter.from} max={today} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+        <select value={filter.type || ''} onChange={(e) => update({ type: (e.target.value as BellLogEntry['type']) || undefined })} className={`${inputClass} appearance-none cursor-pointer`}>
+          <option value="">Semua Jenis</option>
+          {(Object.keys(BELL_TYPES) as BellType[]).map(type => (
+            <option key={type} value={type}>{BELL_TYPES[type].label}</option>
+          ))}
+          <option value="broadcast">Siaran</option>
+        </select>
+        <select value={filter.trigger || ''} onChange={(e) => update({ trigger: (e.target.value as BellTrigger) || undefined })} className={`${inputClass} appearance-none cursor-pointer`}>
+          <option value="">Semua Pemicu</option>
+          <option value="auto">Otomatis</option>
+          <option value="manual">Manual</option>
+        </select>
+        <select value={filter.status || ''} onChange={(e) => update({ status: (e.target.value as BellLogStatus) || undefined })} className={`${inputClass} appearance-none cursor-pointer`}>
+          <option value="">Semua Status</option>
+          {(Object.keys(STATUS_STYLES) as BellLogStatus[]).map(status => (
+            <option key={status} value={status}>{STATUS_STYLES[status].label}</option>
+          ))}
+        </select>
+        <input type="text" value={filter.search || ''} onChange={(e) => update({ search: e.target.value })} placeholder="Cari..." className={inputClass} />
+      </div>
+
+      <div className="max-h-96 overflow-y-auto divide-y divide-indigo-50">
+        {visible.length === 0 ? (
+          <p className="text-xs text-slate-400 italic text-center py-6">Belum ada catatan bel pada rentang ini.</p>
+        ) : visible.map(entry => {
+          const status = STATUS_STYLES[getLogStatus(entry)];
+          return (
+            <div key={entry.id} className="grid grid-cols-[110px_1fr_auto] gap-3 py-2 items-start text-xs">
+              <div className="font-mono text-slate-500">
+                <div className="font-bold text-indigo-900">{formatLogTime(entry.firedAt, 'dd/MM HH:mm:ss', timeZone)}</div>
+                {entry.scheduledAt && <div className="text-[10px]">jadwal {formatLogTime(entry.scheduledAt, 'HH:mm', timeZone)}</div>}
+              </div>
+              <div className="space-y-0.5 min-w-0">
+                <div className="font-bold text-slate-700 truncate">{entry.itemLabel}</div>
+                {entry.text && <div className="text-[10px] text-slate-500 truncate" title={entry.text}>{entry.text}</div>}
+                <div className="text-[10px] text-slate-400">
+                  {getLogTypeLabel(entry)} · {getLogKindLabel(entry)} · {entry.trigger === 'auto' ? 'Otomatis' : 'Manual'}
+                  {entry.fallbackPath.length > 0 && <> · {entry.fallbackPath.join(' → ')}</>}
+                </div>
+                {entry.errors.map((error, i) => (
+                  <div key={i} className="text-[10px] text-rose-500 truncate" title={error}>{error}</div>
+                ))}
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold uppercase ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Megaphone, Siren, Save, Trash2, Send } from 'lucide-react';
+import { AppSettings, Broadcast, BroadcastUrgency } from '../types';
+import { getAllChimes } from '../services/chimeService';
+
+interface BroadcastConsoleProps {
+  settings: AppSettings;
+  onBroadcast: (broadcast: Broadcast) => void;
+  onSaveMessages?: (savedBroadcasts: Broadcast[]) => void; // omitted for users who may only send
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all";
+
+const URGENCY_CHIMES: Record<BroadcastUrgency, string> = { normal: 'builtin-dingdong', emergency: 'builtin-alarm' };
+
+const emptyDraft = (): Broadcast => ({
+  id: Math.random().toString(36).substr(2, 9),
+  title: '',
+  text: '',
+  urgency: 'normal',
+  chimeId: URGENCY_CHIMES.normal,
+  repeat: 1,
+});
+
+export default function BroadcastConsole({ settings, onBroadcast, onSaveMessages }: BroadcastConsoleProps) {
+  const [draft, setDraft] = useState<Broadcast>(emptyDraft);
+
+  const isEmergency = draft.urgency === 'emergency';
+  const isSaved = settings.savedBroadcasts.some(b => b.id === draft.id);
+  const update = (changes: Partial<Broadcast>) => setDraft({ ...draft, ...changes });
+
+  // Switching urgency also switches the tone, unless a custom one was picked
+  const setUrgency = (urgency: BroadcastUrgency) => update({
+    urgency,
+    chimeId: draft.chimeId === URGENCY_CHIMES[draft.urgency] ? URGENCY_CHIMES[urgency] : draft.chimeId,
+  });
+
+  const handleSend = () => {
+    if (!draft.text.trim()) return;
+    if (isEmergency && !confirm('Siarkan pesan darurat sekarang? Bel yang sedang berbunyi akan dihentikan.')) return;
+    onBroadcast({ ...draft, title: draft.title.trim() || draft.text.trim().slice(0, 40) });
+  };
+
+  const handleSave = () => {
+    if (!onSaveMessages || !draft.title.trim() || !draft.text.trim()) return;
+    onSaveMessages(isSaved
+      ? settings.savedBroadcasts.map(b => b.id === draft.id ? draft : b)
+      : [...settings.savedBroadcasts, draft]);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!onSaveMessages) return;
+    onSaveMessages(settings.savedBroadcasts.filter(b => b.id !== id));
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  return (
+    <div className={`bg-white rounded-2xl shadow-xl p-6 space-y-4 border ${isEmergency ? 'border-rose-200' : 'border-indigo-50'}`}>
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <Megaphone className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Siaran</h2>
+        </div>
+        <button
+          onClick={() => setDraft(emptyDraft())}
+          className="text-[10px] uppercase tracking-widest font-bold text-indigo-400 hover:text-indigo-600"
+        >
+          Baru
+        </button>
+      </div>
+
+      {settings.savedBroadcasts.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {settings.savedBroadcasts.map(saved => (
+            <div
+              key={saved.id}
+              className={`group flex items-center gap-1 rounded-full pl-3 pr-1 py-1 text-[11px] font-bold transition-all ${
+                draft.id === saved.id
+                  ? 'bg-indigo-600 text-white'
+                  : saved.urgency === 'emergency' ? 'bg-rose-50 text-rose-600 hover:bg-rose-100' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+              }`}
+            >
+              <button onClick={() => setDraft(saved)}>{saved.title}</button>
+              {onSaveMessages && (
+                <button
+                  onClick={() => handleDelete(saved.id)}
+                  className="p-0.5 opacity-0 group-hover:opacity-60 hover:opacity-100 transition-all"
+                  title="Hapus Pesan"
+                >
+                  <Trash2 size={10} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="Judul (mis. Panggilan ke Kantor)"
+          className={inputClass}
+        />
+        <textarea
+          value={draft.text}
+          onChange={(e) => update({ text: e.target.value })}
+          placeholder="Isi pengumuman..."
+          rows={3}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(['normal', 'emergency'] as BroadcastUrgency[]).map(urgency => (
+          <button
+            key={urgency}
+            onClick={() => setUrgency(urgency)}
+            className={`flex items-center justify-center gap-1 rounded-xl py-1.5 text-xs font-bold border-2 transition-all ${
+              draft.urgency === urgency
+                ? urgency === 'emergency' ? 'bg-rose-500 border-rose-500 text-white' : 'bg-indigo-600 border-indigo-600 text-white'
+                : 'border-indigo-100 text-slate-500 hover:border-indigo-300'
+            }`}
+          >
+            {urgency === 'emergency' && <Siren size={12} />}
+            {urgency === 'emergency' ? 'Darurat' : 'Biasa'}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[1fr_80px] gap-2">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Nada</label>
+          <select value={draft.chimeId} onChange={(e) => update({ chimeId: e.target.value })} className={`${inputClass} appearance-none cursor-pointer`}>
+            {getAllChimes(settings).map(chime => (
+              <option key={chime.id} value={chime.id}>{chime.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Ulangi</label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={draft.repeat}
+            onChange={(e) => update({ repeat: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {onSaveMessages && (
+          <button
+            onClick={handleSave}
+            disabled={!draft.title.trim() || !draft.text.trim()}
+            className="p-2.5 rounded-xl bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-50"
+            title={isSaved ? 'Perbarui Pesan Tersimpan' : 'Simpan Pesan'}
+          >
+            <Save size={16} />
+          </button>
+        )}
+        <button
+          onClick={handleSend}
+          disabled={!draft.text.trim()}
+          className={`flex-1 flex items-center justify-center gap-2 rounded-xl py-2.5 text-sm font-bold text-white shadow-lg transition-all disabled:opacity-50 ${
+            isEmergency ? 'bg-rose-500 hover:bg-rose-600 shadow-rose-200' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200'
+          }`}
+        >
+          {isEmergency ? <Siren size={16} /> : <Send size={16} />}
+          Siarkan Sekarang
+        </button>
+      </div>
+    </div>
+  );
+}
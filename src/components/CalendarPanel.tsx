@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { CalendarEntry, CalendarEntryType, ScheduleProfile } from '../types';
+import { DAY_LABELS, SCHOOL_DAYS } from '../utils/schedule';
+
+interface CalendarPanelProps {
+  calendar: CalendarEntry[];
+  profiles: ScheduleProfile[];
+  onAdd: (entry: Omit<CalendarEntry, 'id'>) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-indigo-500 transition-all";
+
+export default function CalendarPanel({ calendar, profiles, onAdd, onDelete }: CalendarPanelProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState<CalendarEntryType>('holiday');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-5 border border-indigo-50">
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <CalendarOff className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Kalender Libur</h2>
+        </div>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all"
+          title="Tambah Tanggal"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {isAdding && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+            const startDate = formData.get('startDate') as string;
+            const endDate = (formData.get('endDate') as string) || startDate;
+            if (endDate < startDate) {
+              alert('Tanggal selesai tidak boleh sebelum tanggal mulai.');
+              return;
+            }
+            onAdd({
+              type,
+              startDate,
+              endDate,
+              reason: formData.get('reason') as string,
+              scheduleDay: type === 'special' && formData.get('scheduleDay') ? parseInt(formData.get('scheduleDay') as string) : undefined,
+              profileId: type === 'special' ? (formData.get('profileId') as string) || undefined : undefined,
+            });
+            setIsAdding(false);
+          }}
+          className="space-y-3"
+        >
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => setType('holiday')}
+              className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-wider ${type === 'holiday' ? 'bg-rose-500 text-white' : 'bg-slate-100 text-slate-500'}`}
+            >
+              Libur
+            </button>
+            <button
+              type="button"
+              onClick={() => setType('special')}
+              className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-wider ${type === 'special' ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-500'}`}
+            >
+              Hari Khusus
+            </button>
+          </div>
+          <input name="reason" type="text" required placeholder="Keterangan, contoh: Idul Fitri" className={inputClass} />
+          <div className="grid grid-cols-2 gap-2">
+            <input name="startDate" type="date" required defaultValue={today} className={inputClass} />
+            <input name="endDate" type="date" defaultValue={today} className={inputClass} />
+          </div>
+          {type === 'special' && (
+            <div className="space-y-1">
+              <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Gunakan Jadwal Hari</label>
+              <select name="scheduleDay" defaultValue="" className={`${inputClass} appearance-none cursor-pointer`}>
+                <option value="">Sesuai tanggal</option>
+                {[...SCHOOL_DAYS, 0].map(day => (
+                  <option key={day} value={day}>{DAY_LABELS[day]}</option>
+                ))}
+              </select>
+              <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Gunakan Profil</label>
+              <select name="profileId" defaultValue="" className={`${inputClass} appearance-none cursor-pointer`}>
+                <option value="">Profil aktif</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <button type="submit" className="w-full bg-indigo-600 text-white py-2 rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-indigo-700 transition-all">
+            Simpan
+          </button>
+        </form>
+      )}
+
+      <div className="space-y-2">
+        {calendar.length === 0 ? (
+          <p className="text-sm text-slate-400 italic font-serif">Belum ada tanggal libur.</p>
+        ) : (
+          calendar.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-2 bg-indigo-50/50 rounded-lg p-3 group">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${entry.type === 'holiday' ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-700'}`}>
+                    {entry.type === 'holiday' ? 'Libur' : 'Khusus'}
+                  </span>
+                  <span className="font-bold text-sm text-slate-700 truncate">{entry.reason}</span>
+                </div>
+                <div className="font-mono text-[10px] text-indigo-400 mt-1">
+                  {entry.startDate}{entry.endDate !== entry.startDate && ` s/d ${entry.endDate}`}
+                  {entry.type === 'special' && entry.scheduleDay !== undefined && ` · jadwal ${DAY_LABELS[entry.scheduleDay]}`}
+                  {entry.profileId && ` · ${profiles.find(p => p.id === entry.profileId)?.name || 'profil terhapus'}`}
+                </div>
+              </div>
+              <button
+                onClick={() => onDelete(entry.id)}
+                className="p-2 rounded-full bg-rose-100 text-rose-600 hover:bg-rose-500 hover:text-white transition-all opacity-0 group-hover:opacity-100"
+                title="Delete"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
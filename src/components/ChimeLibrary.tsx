@@ -0,0 +1,173 @@
+import React, { useRef, useState } from 'react';
+import { Music, Play, Trash2, Upload, Loader2 } from 'lucide-react';
+import { AppSettings, BellType, Chime } from '../types';
+import { BELL_TYPES } from '../utils/bells';
+import { BUILTIN_CHIMES, getAllChimes, playChime, storeChimeFile, deleteChimeFile } from '../services/chimeService';
+
+interface ChimeLibraryProps {
+  settings: AppSettings;
+  isServerMode: boolean;
+  onChange: (changes: Pick<AppSettings, 'chimes' | 'typeChimes'>) => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all";
+
+export default function ChimeLibrary({ settings, isServerMode, onChange }: ChimeLibraryProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const allChimes = getAllChimes(settings);
+
+  const updateChime = (id: string, changes: Partial<Chime>) => {
+    onChange({
+      chimes: settings.chimes.map(chime => chime.id === id ? { ...chime, ...changes } : chime),
+      typeChimes: settings.typeChimes,
+    });
+  };
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const src = await storeChimeFile(file, isServerMode);
+      const chime: Chime = {
+        id: Math.random().toString(36).substr(2, 9),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        src,
+        repeat: 1,
+        volume: 0.8,
+      };
+      onChange({ chimes: [...settings.chimes, chime], typeChimes: settings.typeChimes });
+    } catch (error) {
+      console.error('Error uploading chime:', error);
+      alert('Gagal mengunggah file bel.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (chime: Chime) => {
+    await deleteChimeFile(chime.src);
+    const typeChimes = Object.fromEntries(
+      Object.entries(settings.typeChimes).filter(([, id]) => id !== chime.id),
+    ) as AppSettings['typeChimes'];
+    onChange({ chimes: settings.chimes.filter(c => c.id !== chime.id), typeChimes });
+  };
+
+  const handleTest = async (chime: Chime) => {
+    setPlayingId(chime.id);
+    await playChime(chime);
+    setPlayingId(null);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-5 border border-indigo-50">
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <Music className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Nada Bel</h2>
+        </div>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={isUploading}
+          className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-50"
+          title="Unggah Nada"
+        >
+          {isUploading ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".mp3,.wav,.ogg,.m4a,.webm"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {allChimes.map(chime => {
+          const isBuiltin = BUILTIN_CHIMES.some(b => b.id === chime.id);
+          return (
+            <div key={chime.id} className="bg-indigo-50/50 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-bold text-sm text-slate-700 truncate">
+                  {chime.name}
+                  {chime.src.startsWith('idb:') && <span className="ml-1 text-[10px] font-normal text-indigo-400">(perangkat ini)</span>}
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => handleTest(chime)}
+                    disabled={playingId !== null}
+                    className="p-2 rounded-full bg-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all disabled:opacity-50"
+                    title="Test Play"
+                  >
+                    {playingId === chime.id ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} fill="currentColor" />}
+                  </button>
+                  {!isBuiltin && (
+                    <button
+                      onClick={() => handleDelete(chime)}
+                      className="p-2 rounded-full bg-rose-100 text-rose-600 hover:bg-rose-500 hover:text-white transition-all"
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {!isBuiltin && (
+                <div className="grid grid-cols-[1fr_70px] gap-2 items-center">
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={chime.volume}
+                    onChange={(e) => updateChime(chime.id, { volume: parseFloat(e.target.value) })}
+                    className="accent-indigo-600"
+                    title={`Volume ${Math.round(chime.volume * 100)}%`}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={chime.repeat}
+                    onChange={(e) => updateChime(chime.id, { repeat: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className={inputClass}
+                    title="Ulangi"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {!isServerMode && (
+        <p className="text-[10px] text-slate-400">
+          Tanpa server bel, nada yang diunggah hanya tersimpan di browser ini. Perangkat lain memutar nada bawaan sebagai gantinya.
+        </p>
+      )}
+
+      <div className="space-y-2 border-t border-indigo-50 pt-4">
+        <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Nada per Jenis Bel</label>
+        {(Object.keys(BELL_TYPES) as BellType[]).map(type => (
+          <div key={type} className="grid grid-cols-[100px_1fr] gap-2 items-center">
+            <span className="text-xs font-bold text-slate-600">{BELL_TYPES[type].label}</span>
+            <select
+              value={settings.typeChimes[type] || BELL_TYPES[type].chime}
+              onChange={(e) => onChange({ chimes: settings.chimes, typeChimes: { ...settings.typeChimes, [type]: e.target.value } })}
+              className={`${inputClass} appearance-none cursor-pointer`}
+            >
+              {allChimes.map(chime => (
+                <option key={chime.id} value={chime.id}>{chime.name}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Bell, CalendarOff, Volume2, WifiOff } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { differenceInSeconds, format, getDay, parse } from 'date-fns';
+import { DAY_LABELS } from '../utils/schedule';
+import { BellEvent, describeItem } from '../utils/bells';
+import { DayPlan } from '../utils/calendar';
+import { SchoolNow } from '../utils/now';
+import RunningText from './RunningText';
+
+interface KioskDisplayProps {
+  schoolName: string;
+  now: Date;           // on the school's clock
+  timeZoneLabel: string;
+  schoolNow: SchoolNow;
+  plan: DayPlan;
+  nextEvent?: BellEvent;
+  announcement: string | null; // whatever the bell station is playing right now
+  marqueeText: string;
+  isConnected: boolean;
+}
+
+const formatCountdown = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+// The hallway screen: read-only, readable from across the corridor.
+export default function KioskDisplay({ schoolName, now, timeZoneLabel, schoolNow, plan, nextEvent, announcement, marqueeText, isConnected }: KioskDisplayProps) {
+  const { schoolWide } = schoolNow;
+  // Classes done for the day drop off the screen
+  const classes = schoolNow.classes.filter(entry => entry.current?.type === 'lesson' || entry.next);
+  const countdown = nextEvent && differenceInSeconds(parse(nextEvent.time, 'HH:mm', now), now);
+
+  return (
+    <div className="min-h-screen bg-indigo-950 text-white font-sans flex flex-col overflow-hidden">
+      <header className="flex justify-between items-center px-10 py-6 border-b border-white/10">
+        <div className="flex items-center gap-4">
+          <div className="bg-white p-2 rounded-xl">
+            <Bell className="text-indigo-600" size={36} />
+          </div>
+          <h1 className="font-serif italic text-4xl tracking-tight">{schoolName}</h1>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold">{DAY_LABELS[getDay(now)]}</div>
+          <div className="text-sm uppercase tracking-widest opacity-70">{format(now, 'dd/MM/yyyy')}</div>
+        </div>
+      </header>
+
+      {!isConnected && (
+        <div className="flex items-center justify-center gap-2 bg-rose-500/30 text-rose-100 py-2 text-sm font-bold uppercase tracking-widest">
+          <WifiOff size={16} /> Koneksi terputus, menyambung kembali...
+        </div>
+      )}
+
+      <main className="flex-1 grid grid-cols-1 xl:grid-cols-3 gap-8 p-10">
+        <section className="flex flex-col items-center justify-center gap-6">
+          <div className="font-mono text-[9rem] leading-none font-bold tracking-tighter">{format(now, 'HH:mm')}</div>
+          <div className="font-mono text-4xl opacity-60">{format(now, 'ss')} {timeZoneLabel}</div>
+          <div className="w-full bg-white/10 rounded-2xl p-6 text-center space-y-2">
+            <div className="text-xs uppercase tracking-[0.3em] font-bold text-indigo-300">Bel Berikutnya</div>
+            {nextEvent && countdown !== undefined ? (
+              <>
+                <div className="font-mono text-6xl font-bold text-amber-300">{formatCountdown(Math.max(0, countdown))}</div>
+                <div className="text-lg">
+                  {nextEvent.time} · {nextEvent.kind === 'end' ? 'Selesai ' : ''}{describeItem(nextEvent.item)}
+                </div>
+              </>
+            ) : (
+              <div className="text-2xl opacity-60">Tidak ada lagi hari ini</div>
+            )}
+          </div>
+        </section>
+
+        <section className="xl:col-span-2 space-y-6">
+          {plan.holiday ? (
+            <div className="h-full flex flex-col items-center justify-center gap-4 text-rose-200">
+              <CalendarOff size={96} />
+              <div className="font-serif italic text-5xl">Libur: {plan.holiday.reason}</div>
+            </div>
+          ) : (
+            <>
+              {plan.special && (
+                <div className="bg-amber-400/20 text-amber-200 rounded-xl px-6 py-3 text-lg font-bold">
+                  Hari Khusus: {plan.special.reason}
+                </div>
+              )}
+              {schoolWide && (
+                <div className="bg-emerald-400/20 text-emerald-200 rounded-2xl px-8 py-6 flex justify-between items-center">
+                  <span className="font-serif italic text-5xl">{describeItem(schoolWide)}</span>
+                  <span className="font-mono text-3xl">{schoolWide.startTime} - {schoolWide.endTime}</span>
+                </div>
+              )}
+              <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+                {classes.map(({ classId, className, current, remainingMinutes, next }) => {
+                  const lesson = current?.type === 'lesson' ? current : null;
+                  return (
+                    <div key={classId || className} className={`rounded-2xl p-5 space-y-2 ${lesson ? 'bg-white/15' : 'bg-white/5 opacity-60'}`}>
+                      <div className="flex justify-between items-baseline">
+                        <span className="text-3xl font-bold">{className}</span>
+                        {lesson && <span className="text-xs uppercase tracking-widest text-indigo-300">Jam Ke {lesson.period}</span>}
+                      </div>
+                      {lesson ? (
+                        <>
+                          <div className="font-serif italic text-2xl truncate">{lesson.subject}</div>
+                          <div className="text-sm opacity-80 truncate">{lesson.gender} {lesson.teacher}</div>
+                          <div className="font-mono text-sm text-indigo-300">{lesson.startTime} - {lesson.endTime} · sisa {remainingMinutes} menit</div>
+                        </>
+                      ) : (
+                        <div className="text-lg opacity-70">{schoolWide ? describeItem(schoolWide) : 'Tidak ada pelajaran'}</div>
+                      )}
+                      {next && (
+                        <div className="text-sm opacity-70 truncate border-t border-white/10 pt-2">
+                          Berikutnya {next.startTime} · {next.type === 'lesson' ? next.subject : describeItem(next)}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </section>
+      </main>
+
+      <RunningText text={marqueeText} className="py-4 text-2xl" />
+
+      <AnimatePresence>
+        {announcement && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-amber-400/90 text-indigo-950"
+          >
+            <motion.div
+              animate={{ scale: [1, 1.05, 1] }}
+              transition={{ repeat: Infinity, duration: 1 }}
+              className="flex flex-col items-center gap-6 px-10 text-center"
+            >
+              <Volume2 size={128} />
+              <div className="text-sm uppercase tracking-[0.4em] font-black">Pengumuman</div>
+              <div className="font-serif italic text-7xl">{announcement}</div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
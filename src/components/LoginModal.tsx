@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { X, LogIn, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { AppUser } from '../types';
+import { AuthMode, setupAdmin, signIn } from '../services/authService';
+
+interface LoginModalProps {
+  mode: AuthMode;
+  needsSetup: boolean; // no account yet: the form creates the first admin instead
+  onSignedIn: (user: AppUser) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500 transition-all";
+const labelClass = "text-[10px] uppercase tracking-widest font-bold text-indigo-400";
+
+export default function LoginModal({ mode, needsSetup, onSignedIn, onClose }: LoginModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const username = (formData.get('username') as string).trim();
+    const password = formData.get('password') as string;
+    if (needsSetup && password !== formData.get('confirm')) {
+      setError('Konfirmasi kata sandi tidak sama');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      onSignedIn(needsSetup ? await setupAdmin(mode, username, password) : await signIn(mode, username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-indigo-900/60 backdrop-blur-md">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        className="bg-white rounded-3xl shadow-2xl p-8 w-full max-w-sm space-y-6 border border-indigo-50"
+      >
+        <div className="flex justify-between items-center border-b-2 border-indigo-50 pb-4">
+          <h3 className="font-serif italic text-3xl text-indigo-900">{needsSetup ? 'Buat Admin' : 'Masuk'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-rose-500 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {needsSetup && (
+          <p className="text-xs text-slate-500">
+            Belum ada akun. Akun pertama menjadi admin dan bisa menambahkan operator serta penonton.
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-1">
+            <label className={labelClass}>{mode === 'supabase' ? 'Email' : 'Nama Pengguna'}</label>
+            <input name="username" type={mode === 'supabase' ? 'email' : 'text'} required autoFocus autoComplete="username" className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Kata Sandi</label>
+            <input name="password" type="password" required autoComplete={needsSetup ? 'new-password' : 'current-password'} className={inputClass} />
+          </div>
+          {needsSetup && (
+            <div className="space-y-1">
+              <label className={labelClass}>Ulangi Kata Sandi</label>
+              <input name="confirm" type="password" required autoComplete="new-password" className={inputClass} />
+            </div>
+          )}
+
+          {error && <p className="text-xs font-bold text-rose-600 bg-rose-50 rounded-lg px-3 py-2">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-3 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 size={16} className="animate-spin" /> : <LogIn size={16} />}
+            {needsSetup ? 'Buat & Masuk' : 'Masuk'}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
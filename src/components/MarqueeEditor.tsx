@@ -0,0 +1,105 @@
+import React from 'react';
+import { Megaphone, Plus, Trash2, Eye, EyeOff } from 'lucide-react';
+import { MarqueeMessage } from '../types';
+import { isMessageShown } from '../utils/marquee';
+
+interface MarqueeEditorProps {
+  messages: MarqueeMessage[];
+  now: Date;
+  onChange: (messages: MarqueeMessage[]) => void;
+}
+
+const cellClass = "w-full min-w-0 bg-transparent text-sm focus:outline-none focus:bg-white rounded px-1";
+const boundClass = "w-full min-w-0 bg-white/70 border border-indigo-100 rounded px-1 py-0.5 text-[11px] text-slate-600 focus:outline-none focus:border-indigo-400";
+
+export default function MarqueeEditor({ messages, now, onChange }: MarqueeEditorProps) {
+  const update = (id: string, changes: Partial<MarqueeMessage>) => {
+    const current = messages.find(m => m.id === id);
+    if (!current || Object.entries(changes).every(([key, value]) => current[key as keyof MarqueeMessage] === value)) return;
+    onChange(messages.map(m => m.id === id ? { ...m, ...changes } : m));
+  };
+
+  const add = () => {
+    onChange([...messages, {
+      id: Math.random().toString(36).substr(2, 9),
+      text: '',
+      isActive: true,
+      startDate: null,
+      endDate: null,
+      startTime: null,
+      endTime: null,
+    }]);
+  };
+
+  const renderBound = (message: MarqueeMessage, field: 'startDate' | 'endDate' | 'startTime' | 'endTime', type: 'date' | 'time') => (
+    <input
+      type={type}
+      value={message[field] || ''}
+      onChange={(e) => update(message.id, { [field]: e.target.value || null })}
+      className={boundClass}
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <Megaphone className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Teks Berjalan</h2>
+        </div>
+        <button
+          onClick={add}
+          className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all"
+          title="Tambah Pesan"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {messages.map(message => (
+          <div
+            key={message.id}
+            className={`rounded-lg p-2 space-y-2 ${isMessageShown(message, now) ? 'bg-amber-50 border border-amber-200' : 'bg-indigo-50/50 border border-transparent'}`}
+          >
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                defaultValue={message.text}
+                onBlur={(e) => update(message.id, { text: e.target.value.trim() })}
+                placeholder="Selamat datang..."
+                className={`${cellClass} font-bold text-slate-700`}
+              />
+              <button
+                onClick={() => update(message.id, { isActive: !message.isActive })}
+                className={`p-1 ${message.isActive ? 'text-indigo-500' : 'text-slate-300'} hover:text-indigo-700`}
+                title={message.isActive ? 'Aktif' : 'Nonaktif'}
+              >
+                {message.isActive ? <Eye size={12} /> : <EyeOff size={12} />}
+              </button>
+              <button
+                onClick={() => onChange(messages.filter(m => m.id !== message.id))}
+                className="p-1 text-slate-400 hover:text-rose-500"
+                title="Hapus"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {renderBound(message, 'startDate', 'date')}
+              {renderBound(message, 'endDate', 'date')}
+              {renderBound(message, 'startTime', 'time')}
+              {renderBound(message, 'endTime', 'time')}
+            </div>
+          </div>
+        ))}
+        {messages.length === 0 && (
+          <p className="text-xs text-slate-400 italic text-center py-2">Belum ada pesan.</p>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-400">
+        Tanggal dan jam boleh dikosongkan. Pesan yang sedang tampil ditandai kuning.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Database, Plus, Trash2 } from 'lucide-react';
+import { ScheduleProfile, Teacher } from '../types';
+import { MasterData, MasterKind, cleanName, countUsage, findByName } from '../utils/masterData';
+
+interface MasterDataPanelProps {
+  master: MasterData;
+  profiles: ScheduleProfile[];
+  onChange: (changes: Partial<MasterData>) => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all";
+
+const TABS: Record<MasterKind, string> = { teachers: 'Guru', subjects: 'Mapel', classes: 'Kelas' };
+
+export default function MasterDataPanel({ master, profiles, onChange }: MasterDataPanelProps) {
+  const [tab, setTab] = useState<MasterKind>('teachers');
+  const [newName, setNewName] = useState('');
+
+  const entries = [...master[tab]].sort((a, b) => a.name.localeCompare(b.name));
+  const duplicate = newName.trim() !== '' && !!findByName(master[tab], newName);
+
+  // Each list keeps its own element type, so the casts only widen what was read from it
+  const update = (id: string, changes: Partial<Teacher>) => {
+    onChange({ [tab]: master[tab].map(entry => entry.id === id ? { ...entry, ...changes } : entry) } as Partial<MasterData>);
+  };
+
+  // Refuses blanks and names already taken by another entry
+  const rename = (id: string, name: string): boolean => {
+    const clean = cleanName(name);
+    const other = findByName(master[tab], clean);
+    if (!clean || (other && other.id !== id)) return false;
+    if (other?.name !== clean) update(id, { name: clean });
+    return true;
+  };
+
+  const add = () => {
+    if (!newName.trim() || duplicate) return;
+    const entry = tab === 'teachers'
+      ? { id: Math.random().toString(36).substr(2, 9), name: cleanName(newName), gender: 'Bapak' as const }
+      : { id: Math.random().toString(36).substr(2, 9), name: cleanName(newName) };
+    onChange({ [tab]: [...master[tab], entry] } as Partial<MasterData>);
+    setNewName('');
+  };
+
+  const remove = (id: string) => {
+    onChange({ [tab]: master[tab].filter(entry => entry.id !== id) } as Partial<MasterData>);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center gap-2 border-b-2 border-indigo-50 pb-3">
+        <Database className="text-indigo-500" size={20} />
+        <h2 className="font-serif italic text-xl text-indigo-900">Data Master</h2>
+      </div>
+
+      <div className="flex gap-1">
+        {(Object.keys(TABS) as MasterKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => setTab(kind)}
+            className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${tab === kind ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-400 hover:bg-indigo-100'}`}
+          >
+            {TABS[kind]} ({master[kind].length})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder={`Tambah ${TABS[tab].toLowerCase()}...`}
+          className={`${inputClass} ${duplicate ? 'border-rose-300' : ''}`}
+        />
+        <button
+          onClick={add}
+          disabled={!newName.trim() || duplicate}
+          className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-50"
+          title="Tambah"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto space-y-2">
+        {entries.length === 0 && (
+          <p className="text-xs text-slate-400 italic text-center py-4">Belum ada data. Nama dari jadwal ditambahkan otomatis.</p>
+        )}
+        {entries.map(entry => {
+          const usage = countUsage(profiles, tab, entry.id);
+          const teacher = tab === 'teachers' ? entry as Teacher : null;
+          return (
+            <div key={entry.id} className="rounded-lg p-2 bg-indigo-50/50 space-y-1">
+              <div className="flex items-center gap-2">
+                {teacher && (
+                  <select
+                    value={teacher.gender}
+                    onChange={(e) => update(entry.id, { gender: e.target.value as Teacher['gender'] })}
+                    className="bg-transparent text-[10px] font-bold uppercase text-indigo-400 focus:outline-none cursor-pointer"
+                  >
+                    <option value="Bapak">Bapak</option>
+                    <option value="Ibu">Ibu</option>
+                  </select>
+                )}
+                <input
+                  key={entry.name}
+                  type="text"
+                  defaultValue={entry.name}
+                  onBlur={(e) => {
+                    if (!rename(entry.id, e.target.value)) e.target.value = entry.name;
+                  }}
+                  className="flex-1 min-w-0 bg-transparent text-sm font-bold text-slate-700 focus:outline-none focus:bg-white rounded px-1"
+                />
+                <span className="text-[10px] text-slate-400" title="Dipakai di jadwal">{usage}×</span>
+                <button
+                  onClick={() => remove(entry.id)}
+                  disabled={usage > 0}
+                  className="p-1 text-slate-400 hover:text-rose-500 disabled:opacity-30 disabled:hover:text-slate-400"
+                  title={usage > 0 ? 'Masih dipakai di jadwal' : 'Hapus'}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {teacher && (
+                <input
+                  key={`${entry.id}-${teacher.pronunciation || ''}`}
+                  type="text"
+                  defaultValue={teacher.pronunciation || ''}
+                  onBlur={(e) => {
+                    const pronunciation = e.target.value.trim() || undefined;
+                    if (pronunciation !== teacher.pronunciation) update(entry.id, { pronunciation });
+                  }}
+                  placeholder="Cara baca (opsional)"
+                  className="w-full bg-transparent text-[11px] italic text-slate-500 focus:outline-none focus:bg-white rounded px-1"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
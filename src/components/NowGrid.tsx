@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { LayoutGrid, MapPin } from 'lucide-react';
+import { ScheduleItem, Teacher } from '../types';
+import { SchoolNow, getTeacherNow } from '../utils/now';
+import { describeItem } from '../utils/bells';
+
+interface NowGridProps {
+  schoolNow: SchoolNow;
+  items: ScheduleItem[]; // today's timetable
+  teachers: Teacher[];
+  now: Date;
+}
+
+const describeShort = (item: ScheduleItem) => item.type === 'lesson' ? item.subject : describeItem(item);
+
+export default function NowGrid({ schoolNow, items, teachers, now }: NowGridProps) {
+  const [teacherId, setTeacherId] = useState('');
+  const teacher = teachers.find(t => t.id === teacherId);
+  const teacherNow = teacher && getTeacherNow(items, teacher, now);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <LayoutGrid className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Sekarang</h2>
+        </div>
+        <span className="font-mono text-sm font-bold text-indigo-400">{schoolNow.time}</span>
+      </div>
+
+      {schoolNow.classes.length === 0 ? (
+        <p className="text-xs text-slate-400 italic text-center py-2">Tidak ada kelas hari ini.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-2">
+          {schoolNow.classes.map(entry => (
+            <div
+              key={entry.classId || entry.className}
+              className={`rounded-xl p-3 space-y-1 ${entry.current ? 'bg-indigo-50 border border-indigo-100' : 'bg-slate-50 border border-transparent'}`}
+            >
+              <div className="flex justify-between items-baseline gap-2">
+                <span className="font-bold text-indigo-900 truncate">{entry.className}</span>
+                {entry.remainingMinutes !== null && (
+                  <span className="text-[10px] font-bold text-indigo-400 whitespace-nowrap">sisa {entry.remainingMinutes} mnt</span>
+                )}
+              </div>
+              {entry.current ? (
+                <>
+                  <div className="text-sm font-serif italic text-slate-700 truncate">{describeShort(entry.current)}</div>
+                  {entry.current.type === 'lesson' && (
+                    <div className="text-[10px] text-slate-500 truncate">{entry.current.gender} {entry.current.teacher}</div>
+                  )}
+                </>
+              ) : (
+                <div className="text-sm text-slate-400">Kosong</div>
+              )}
+              {entry.next && (
+                <div className="text-[10px] text-slate-400 truncate border-t border-indigo-100/60 pt-1">
+                  {entry.next.startTime} {describeShort(entry.next)}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {teachers.length > 0 && (
+        <div className="space-y-2 border-t-2 border-indigo-50 pt-3">
+          <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400 flex items-center gap-1">
+            <MapPin size={10} /> Di Mana Saya Berikutnya?
+          </label>
+          <select
+            value={teacherId}
+            onChange={(e) => setTeacherId(e.target.value)}
+            className="w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all appearance-none cursor-pointer"
+          >
+            <option value="">Pilih guru...</option>
+            {teachers.map(t => <option key={t.id} value={t.id}>{t.gender} {t.name}</option>)}
+          </select>
+          {teacherNow && (
+            <div className="text-sm text-slate-600 space-y-1">
+              <div>
+                <span className="font-bold">Sekarang: </span>
+                {teacherNow.current
+                  ? `Kelas ${teacherNow.current.className}, ${teacherNow.current.subject} (sisa ${teacherNow.remainingMinutes} menit)`
+                  : 'Tidak mengajar'}
+              </div>
+              <div>
+                <span className="font-bold">Berikutnya: </span>
+                {teacherNow.next
+                  ? `Kelas ${teacherNow.next.className}, ${teacherNow.next.subject} pukul ${teacherNow.next.startTime} (${teacherNow.minutesUntilNext} menit lagi)`
+                  : 'Tidak ada lagi hari ini'}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
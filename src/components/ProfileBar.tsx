@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Copy, Pencil, CalendarClock, Trash2 } from 'lucide-react';
+import { ScheduleProfile } from '../types';
+
+interface ProfileBarProps {
+  profiles: ScheduleProfile[];
+  activeProfileId: string;
+  viewedProfileId: string;
+  onView: (id: string) => void;
+  onActivate: (id: string) => void;
+  onDuplicate: (profile: ScheduleProfile, name: string) => void;
+  onSave: (profile: ScheduleProfile) => void;
+  onDelete: (id: string) => void;
+  readOnly?: boolean; // profiles can be browsed but not changed
+}
+
+type Mode = 'duplicate' | 'rename' | 'schedule';
+
+const MODE_LABELS: Record<Mode, string> = {
+  duplicate: 'Nama profil baru',
+  rename: 'Ganti nama profil',
+  schedule: 'Aktif otomatis pada tanggal',
+};
+
+export default function ProfileBar({ profiles, activeProfileId, viewedProfileId, onView, onActivate, onDuplicate, onSave, onDelete, readOnly }: ProfileBarProps) {
+  const [mode, setMode] = useState<Mode | null>(null);
+  const viewed = profiles.find(p => p.id === viewedProfileId);
+  if (!viewed) return null;
+
+  const isActive = viewed.id === activeProfileId;
+
+  const initialValue = mode === 'duplicate'
+    ? `${viewed.name} (Salinan)`
+    : mode === 'rename'
+      ? viewed.name
+      : viewed.activateOn || '';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md p-4 space-y-3 border border-indigo-50">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] uppercase tracking-widest font-bold text-indigo-400 mr-1">Profil:</span>
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => { onView(profile.id); setMode(null); }}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${profile.id === viewedProfileId ? 'bg-indigo-600 text-white shadow-md' : 'bg-indigo-50 text-indigo-500 hover:bg-indigo-100'}`}
+          >
+            {profile.id === activeProfileId && <CheckCircle2 size={12} />}
+            {profile.name}
+            {profile.activateOn && <span className="font-mono text-[9px] opacity-70">({profile.activateOn})</span>}
+          </button>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2 border-t border-indigo-50 pt-3">
+          {isActive ? (
+            <span className="text-[10px] uppercase font-bold text-emerald-600 bg-emerald-50 px-3 py-1.5 rounded-lg">Sedang Aktif</span>
+          ) : (
+            <button
+              onClick={() => onActivate(viewed.id)}
+              className="text-[10px] uppercase font-bold text-white bg-emerald-500 hover:bg-emerald-600 px-3 py-1.5 rounded-lg transition-all"
+            >
+              Aktifkan Sekarang
+            </button>
+          )}
+          <button onClick={() => setMode('duplicate')} className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-500 hover:text-white transition-all" title="Duplikat">
+            <Copy size={14} />
+          </button>
+          <button onClick={() => setMode('rename')} className="p-2 rounded-full bg-amber-100 text-amber-600 hover:bg-amber-500 hover:text-white transition-all" title="Ganti Nama">
+            <Pencil size={14} />
+          </button>
+          {!isActive && (
+            <button onClick={() => setMode('schedule')} className="p-2 rounded-full bg-blue-100 text-blue-600 hover:bg-blue-500 hover:text-white transition-all" title="Jadwalkan Aktivasi">
+              <CalendarClock size={14} />
+            </button>
+          )}
+          {!isActive && profiles.length > 1 && (
+            <button onClick={() => onDelete(viewed.id)} className="p-2 rounded-full bg-rose-100 text-rose-600 hover:bg-rose-500 hover:text-white transition-all" title="Delete">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {mode && !readOnly && (
+        <form
+          key={`${mode}-${viewed.id}`}
+          onSubmit={(e) => {
+            e.preventDefault();
+            const value = (new FormData(e.currentTarget).get('value') as string).trim();
+            if (mode === 'duplicate' && value) onDuplicate(viewed, value);
+            if (mode === 'rename' && value) onSave({ ...viewed, name: value });
+            if (mode === 'schedule') onSave({ ...viewed, activateOn: value || undefined });
+            setMode(null);
+          }}
+          className="flex items-center gap-2"
+        >
+          <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400 whitespace-nowrap">{MODE_LABELS[mode]}</label>
+          <input
+            name="value"
+            type={mode === 'schedule' ? 'date' : 'text'}
+            defaultValue={initialValue}
+            autoFocus
+            className="flex-1 bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+          />
+          <button type="submit" className="bg-indigo-600 text-white px-3 py-1.5 rounded-xl text-[10px] font-bold uppercase hover:bg-indigo-700">Simpan</button>
+          <button type="button" onClick={() => setMode(null)} className="bg-slate-100 text-slate-600 px-3 py-1.5 rounded-xl text-[10px] font-bold uppercase hover:bg-slate-200">Batal</button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Languages, Plus, Trash2, Play, Loader2 } from 'lucide-react';
+import { AppSettings, PronunciationEntry } from '../types';
+import { speakAnnouncement, toSpokenText } from '../services/ttsService';
+
+interface PronunciationEditorProps {
+  settings: AppSettings;
+  onChange: (pronunciations: PronunciationEntry[]) => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all";
+const cellClass = "w-full min-w-0 bg-transparent text-sm focus:outline-none focus:bg-white rounded px-1";
+
+export default function PronunciationEditor({ settings, onChange }: PronunciationEditorProps) {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [sample, setSample] = useState('');
+  const entries = settings.pronunciations;
+
+  const update = (id: string, changes: Partial<PronunciationEntry>) => {
+    const current = entries.find(e => e.id === id);
+    if (!current || Object.entries(changes).every(([key, value]) => current[key as keyof PronunciationEntry] === value)) return;
+    onChange(entries.map(e => e.id === id ? { ...e, ...changes } : e));
+  };
+
+  const add = () => {
+    onChange([...entries, { id: Math.random().toString(36).substr(2, 9), term: '', spoken: '', caseSensitive: false }]);
+  };
+
+  // Goes through the whole chain, dictionary included, exactly as a bell would
+  const listen = async (id: string, text: string) => {
+    if (!text.trim()) return;
+    setPlayingId(id);
+    await speakAnnouncement(text, settings);
+    setPlayingId(null);
+  };
+
+  const renderListen = (id: string, text: string) => (
+    <button
+      onClick={() => listen(id, text)}
+      disabled={playingId !== null || !text.trim()}
+      className="p-1.5 rounded-full bg-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all disabled:opacity-50"
+      title="Dengarkan"
+    >
+      {playingId === id ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} fill="currentColor" />}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center justify-between border-b-2 border-indigo-50 pb-3">
+        <div className="flex items-center gap-2">
+          <Languages className="text-indigo-500" size={20} />
+          <h2 className="font-serif italic text-xl text-indigo-900">Kamus Pelafalan</h2>
+        </div>
+        <button
+          onClick={add}
+          className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all"
+          title="Tambah Istilah"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_1.3fr_auto] gap-2 text-[10px] uppercase tracking-widest font-bold text-indigo-400 px-2">
+        <span>Tertulis</span>
+        <span>Diucapkan</span>
+        <span />
+      </div>
+      <div className="max-h-72 overflow-y-auto space-y-1">
+        {entries.map(entry => (
+          <div key={entry.id} className="grid grid-cols-[1fr_1.3fr_auto] gap-2 items-center rounded-lg p-2 bg-indigo-50/50">
+            <input
+              type="text"
+              defaultValue={entry.term}
+              onBlur={(e) => update(entry.id, { term: e.target.value.trim() })}
+              placeholder="XI-B"
+              className={`${cellClass} font-mono font-bold text-slate-700`}
+            />
+            <input
+              type="text"
+              defaultValue={entry.spoken}
+              onBlur={(e) => update(entry.id, { spoken: e.target.value.trim() })}
+              placeholder="sebelas B"
+              className={`${cellClass} italic text-slate-600`}
+            />
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => update(entry.id, { caseSensitive: !entry.caseSensitive })}
+                className={`px-1.5 py-0.5 rounded text-[10px] font-bold transition-all ${entry.caseSensitive ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-300'}`}
+                title={entry.caseSensitive ? 'Huruf besar/kecil harus sama' : 'Abaikan huruf besar/kecil'}
+              >
+                Aa
+              </button>
+              {renderListen(entry.id, entry.term)}
+              <button
+                onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                className="p-1 text-slate-400 hover:text-rose-500"
+                title="Hapus"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t-2 border-indigo-50 pt-3">
+        <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Coba Kalimat</label>
+        <div className="flex gap-2 items-center">
+          <input
+            type="text"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="Kelas XI-B, mata pelajaran PJOK"
+            className={inputClass}
+          />
+          {renderListen('sample', sample)}
+        </div>
+        {sample.trim() && (
+          <p className="text-[11px] text-slate-500 italic">{toSpokenText(sample, settings)}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface RunningTextProps {
+  text: string;
+  className?: string;
+}
+
+// Longer text runs longer, so every message passes at a readable speed
+export default function RunningText({ text, className = 'py-2 text-sm' }: RunningTextProps) {
+  if (!text) return null;
+  return (
+    <div className={`bg-amber-400 text-indigo-900 overflow-hidden border-b border-indigo-900/20 shadow-inner ${className}`}>
+      <div
+        key={text}
+        className="whitespace-nowrap animate-marquee font-bold uppercase tracking-[0.2em]"
+        style={{ animationDuration: `${Math.max(20, text.length / 4)}s` }}
+      >
+        {text}
+      </div>
+    </div>
+  );
+}
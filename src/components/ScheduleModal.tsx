@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Trash2, AlertTriangle, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ScheduleItem, BellType, WeekRotation, Chime } from '../types';
+import { DAY_LABELS, SCHOOL_DAYS } from '../utils/schedule';
+import { BELL_TYPES, LessonField } from '../utils/bells';
+import { WEEKDAYS } from '../defaults';
+import { MasterData, cleanName, findByName } from '../utils/masterData';
+import SearchSelect from './SearchSelect';
+import { ScheduleProblem, describeProblems, getItemProblems, hasErrors, validateSchedule } from '../utils/validation';
+
+export type ScheduleFormData = Omit<ScheduleItem, 'id' | 'isActive'>;
+
+interface ScheduleModalProps {
+  item: ScheduleItem | null;
+  items: ScheduleItem[]; // the rest of the profile, to check for clashes
+  master: MasterData;
+  chimes: Chime[];
+  onSubmit: (data: ScheduleFormData) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-500";
+const labelClass = "text-[10px] uppercase tracking-widest font-bold text-indigo-400";
+
+export default function ScheduleModal({ item, items, master, chimes, onSubmit, onClose }: ScheduleModalProps) {
+  const [type, setType] = useState<BellType>(item?.type || 'lesson');
+  const config = BELL_TYPES[type];
+  const has = (field: LessonField) => config.fields.includes(field);
+  const [problems, setProblems] = useState<ScheduleProblem[]>([]);
+  // Warnings shown once are accepted by submitting again unchanged
+  const [acknowledged, setAcknowledged] = useState<string | null>(null);
+  // A known teacher's honorific comes from master data; only new teachers get one here
+  const [teacher, setTeacher] = useState(findByName(master.teachers, item?.teacher || ''));
+  const [gender, setGender] = useState<ScheduleItem['gender']>(item?.gender || 'Bapak');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-indigo-900/60 backdrop-blur-md">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        className="bg-white rounded-3xl shadow-2xl p-8 w-full max-w-md space-y-6 border border-indigo-50 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center border-b-2 border-indigo-50 pb-4">
+          <h3 className="font-serif italic text-3xl text-indigo-900">
+            {item ? 'Edit Jadwal' : 'Tambah Jadwal'}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-rose-500 transition-colors">
+            <Trash2 size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={(e) => {
+          e.preventDefault();
+          const formData = new FormData(e.currentTarget);
+          const data: ScheduleFormData = {
+            type,
+            label: config.hasLabel ? (formData.get('label') as string) || config.label : undefined,
+            ringAtEnd: config.canRingAtEnd ? formData.get('ringAtEnd') === 'on' : undefined,
+            period: has('period') ? parseInt(formData.get('period') as string) : 0,
+            startTime: formData.get('startTime') as string,
+            endTime: formData.get('endTime') as string,
+            teacher: has('teacher') ? cleanName(formData.get('teacher') as string) : '',
+            gender: has('gender') ? teacher?.gender || gender : 'Bapak',
+            subject: has('subject') ? cleanName(formData.get('subject') as string) : '',
+            className: has('className') ? cleanName(formData.get('className') as string) : '',
+            days: formData.getAll('days').map(d => parseInt(d as string)),
+            rotation: (formData.get('rotation') as WeekRotation) || undefined,
+            chimeId: (formData.get('chimeId') as string) || undefined,
+          };
+          // New names get their ids when the schedule is next linked to master data
+          data.teacherId = findByName(master.teachers, data.teacher)?.id;
+          data.subjectId = findByName(master.subjects, data.subject)?.id;
+          data.classId = findByName(master.classes, data.className)?.id;
+
+          const candidate: ScheduleItem = { ...data, id: item?.id || 'new', isActive: item?.isActive ?? true };
+          const found = getItemProblems(
+            validateSchedule([...items.filter(other => other.id !== candidate.id), candidate]),
+            candidate.id,
+          );
+          setProblems(found);
+          const summary = describeProblems(found);
+          if (hasErrors(found) || (found.length > 0 && summary !== acknowledged)) {
+            setAcknowledged(summary);
+            return;
+          }
+
+          onSubmit(data);
+        }} className="space-y-5">
+          <div className="space-y-2">
+            <label className={labelClass}>Jenis Bel</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(BELL_TYPES) as BellType[]).map(t => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setType(t)}
+                  className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${type === t ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-400 hover:bg-indigo-100'}`}
+                >
+                  {BELL_TYPES[t].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {config.hasLabel && (
+            <div className="space-y-2">
+              <label className={labelClass}>Keterangan</label>
+              <input name="label" type="text" defaultValue={item?.type === type ? item.label : ''} className={inputClass} placeholder={`Contoh: ${config.label}`} />
+            </div>
+          )}
+
+          {has('period') && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Jam Ke</label>
+                <input name="period" type="number" defaultValue={item?.period || undefined} required className={inputClass} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Kelas</label>
+                <SearchSelect name="className" options={master.classes.map(c => c.name)} defaultValue={item?.className} required className={inputClass} placeholder="Contoh: X-A" />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Mata Pelajaran</label>
+                <SearchSelect name="subject" options={master.subjects.map(s => s.name)} defaultValue={item?.subject} required className={inputClass} />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Waktu Mulai</label>
+              <input name="startTime" type="time" defaultValue={item?.startTime} required className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Waktu Selesai</label>
+              <input name="endTime" type="time" defaultValue={item?.endTime} required className={inputClass} />
+            </div>
+          </div>
+
+          {config.canRingAtEnd && (
+            <label className="flex items-center gap-2 text-xs font-bold text-indigo-500 cursor-pointer">
+              <input name="ringAtEnd" type="checkbox" defaultChecked={item?.ringAtEnd} className="accent-indigo-600 w-4 h-4" />
+              Bunyikan bel saat jam pelajaran selesai
+            </label>
+          )}
+
+          <div className="space-y-2">
+            <label className={labelClass}>Hari</label>
+            <div className="flex flex-wrap gap-2">
+              {[...SCHOOL_DAYS, 0].map(day => (
+                <label key={day} className="flex items-center gap-1 bg-indigo-50/50 border-2 border-indigo-100 rounded-lg px-2 py-1 text-xs font-bold text-indigo-600 cursor-pointer has-[:checked]:bg-indigo-600 has-[:checked]:text-white has-[:checked]:border-indigo-600">
+                  <input
+                    type="checkbox"
+                    name="days"
+                    value={day}
+                    defaultChecked={item ? item.days.includes(day) : WEEKDAYS.includes(day)}
+                    className="hidden"
+                  />
+                  {DAY_LABELS[day].slice(0, 3)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Rotasi Minggu</label>
+            <select name="rotation" defaultValue={item?.rotation || ''} className={`${inputClass} appearance-none cursor-pointer`}>
+              <option value="">Setiap Minggu</option>
+              <option value="A">Hanya Minggu A</option>
+              <option value="B">Hanya Minggu B</option>
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Nada Bel</label>
+            <select name="chimeId" defaultValue={item?.chimeId || ''} className={`${inputClass} appearance-none cursor-pointer`}>
+              <option value="">Sesuai jenis bel</option>
+              {chimes.map(chime => (
+                <option key={chime.id} value={chime.id}>{chime.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {has('teacher') && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Bapak/Ibu</label>
+                <select
+                  value={teacher?.gender || gender}
+                  onChange={(e) => setGender(e.target.value as ScheduleItem['gender'])}
+                  disabled={!!teacher}
+                  title={teacher ? 'Ubah sapaan di Data Master' : undefined}
+                  className={`${inputClass} appearance-none cursor-pointer disabled:opacity-60 disabled:cursor-default`}
+                >
+                  <option value="Bapak">Bapak</option>
+                  <option value="Ibu">Ibu</option>
+                </select>
+              </div>
+              <div className="col-span-2 space-y-2">
+                <label className={labelClass}>Nama Guru</label>
+                <SearchSelect
+                  name="teacher"
+                  options={master.teachers.map(t => t.name)}
+                  defaultValue={item?.teacher}
+                  onChange={(name) => setTeacher(findByName(master.teachers, name))}
+                  required
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          {problems.length > 0 && (
+            <div className="space-y-1 rounded-xl bg-rose-50/60 border border-rose-100 p-3">
+              {problems.map((problem, i) => (
+                <div key={i} className={`flex items-start gap-2 text-xs ${problem.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+                  {problem.severity === 'error' ? <XCircle size={14} className="shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+                  {problem.message}
+                </div>
+              ))}
+              {!hasErrors(problems) && (
+                <p className="text-[10px] text-slate-500 pt-1">Simpan sekali lagi untuk tetap menyimpan jadwal ini.</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-4 pt-4">
+            <button
+              type="submit"
+              className="flex-1 bg-indigo-600 text-white py-4 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all transform active:scale-95"
+            >
+              {problems.length > 0 && !hasErrors(problems) ? 'Simpan Tetap' : item ? 'Simpan Perubahan' : 'Simpan Jadwal'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-slate-100 text-slate-600 py-4 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-slate-200 transition-all"
+            >
+              Batal
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+
+interface SearchSelectProps {
+  name: string;               // form field name; the chosen or typed text is submitted
+  options: string[];
+  defaultValue?: string;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+  onChange?: (value: string) => void;
+}
+
+// A text field that suggests existing master data entries as you type. Typing
+// a name that isn't listed is allowed and creates a new entry on save.
+export default function SearchSelect({ name, options, defaultValue = '', placeholder, required, className, onChange }: SearchSelectProps) {
+  const [value, setValue] = useState(defaultValue);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const query = value.trim().toLowerCase();
+  const matches = options.filter(option => option.toLowerCase().includes(query));
+  const isNew = query !== '' && !options.some(option => option.toLowerCase() === query);
+
+  const choose = (next: string) => {
+    setValue(next);
+    setIsOpen(false);
+    onChange?.(next);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        name={name}
+        type="text"
+        value={value}
+        required={required}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => { setValue(e.target.value); setIsOpen(true); onChange?.(e.target.value); }}
+        onFocus={() => setIsOpen(true)}
+        // Delayed so a click on a suggestion lands before the list disappears
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        className={className}
+      />
+      {isOpen && (matches.length > 0 || isNew) && (
+        <div className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-white border-2 border-indigo-100 rounded-xl shadow-lg text-sm">
+          {matches.map(option => (
+            <button
+              key={option}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(option)}
+              className={`block w-full text-left px-3 py-1.5 hover:bg-indigo-50 ${option === value ? 'font-bold text-indigo-600' : 'text-slate-700'}`}
+            >
+              {option}
+            </button>
+          ))}
+          {isNew && (
+            <div className="px-3 py-1.5 text-[11px] text-emerald-600 italic border-t border-indigo-50">
+              "{value.trim()}" akan ditambahkan sebagai data baru
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
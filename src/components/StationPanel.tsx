@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { MonitorSpeaker, Star, Volume2, VolumeX } from 'lucide-react';
+import { Station } from '../types';
+import { LocalStation } from '../services/station';
+
+interface StationPanelProps {
+  station: LocalStation;
+  stations: Station[];
+  leaderId: string | null;
+  primaryStationId: string | null;
+  canDesignate: boolean;
+  onStationChange: (station: LocalStation) => void;
+  onDesignate: (primaryStationId: string | null) => void;
+}
+
+export default function StationPanel({ station, stations, leaderId, primaryStationId, canDesignate, onStationChange, onDesignate }: StationPanelProps) {
+  const [name, setName] = useState(station.name);
+  useEffect(() => setName(station.name), [station.name]);
+
+  // Saved on blur rather than per keystroke: every change reconnects this device
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== station.name) onStationChange({ ...station, name: trimmed });
+    else setName(station.name);
+  };
+
+  const primaryIsAway = primaryStationId && !stations.some(s => s.id === primaryStationId);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center gap-2 border-b-2 border-indigo-50 pb-3">
+        <MonitorSpeaker className="text-indigo-500" size={20} />
+        <h2 className="font-serif italic text-xl text-indigo-900">Stasiun Bel</h2>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Perangkat Ini</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            className="flex-1 min-w-0 bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all"
+          />
+          <button
+            onClick={() => onStationChange({ ...station, canPlay: !station.canPlay })}
+            className={`p-2 rounded-full transition-all ${station.canPlay ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}
+            title={station.canPlay ? 'Boleh memutar bel' : 'Hanya menampilkan, tidak memutar bel'}
+          >
+            {station.canPlay ? <Volume2 size={14} /> : <VolumeX size={14} />}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Terhubung ({stations.length})</label>
+        {stations.map(s => (
+          <div key={s.id} className="flex items-center gap-2 rounded-lg p-2 bg-indigo-50/50">
+            <span className="flex-1 min-w-0 truncate text-sm font-bold text-slate-700">
+              {s.name}
+              {s.id === station.id && <span className="ml-1 text-[10px] font-normal text-indigo-400">(perangkat ini)</span>}
+            </span>
+            {s.id === primaryStationId && (
+              <span className="text-[9px] font-black uppercase px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">Utama</span>
+            )}
+            {s.id === leaderId && (
+              <span className="text-[9px] font-black uppercase px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700">Memutar</span>
+            )}
+            {!s.canPlay && (
+              <span className="text-[9px] font-black uppercase px-2 py-0.5 rounded-full bg-slate-100 text-slate-500">Layar</span>
+            )}
+            {canDesignate && s.canPlay && s.id !== primaryStationId && (
+              <button onClick={() => onDesignate(s.id)} className="p-1 text-slate-400 hover:text-amber-500" title="Jadikan Utama">
+                <Star size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        {!leaderId && (
+          <p className="text-[10px] text-rose-500 font-bold">Tidak ada stasiun yang dapat memutar bel.</p>
+        )}
+        {primaryIsAway && (
+          <p className="text-[10px] text-amber-600">Stasiun utama sedang tidak terhubung; stasiun lain menggantikannya.</p>
+        )}
+        {canDesignate && primaryStationId && (
+          <button onClick={() => onDesignate(null)} className="text-[10px] font-bold uppercase text-indigo-400 hover:text-indigo-600">
+            Lepas Stasiun Utama
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { CloudOff, Cloud, Loader2 } from 'lucide-react';
+import { SyncSnapshot, SyncTable } from '../services/syncEngine';
+
+interface SyncIndicatorProps {
+  status: SyncSnapshot;
+  onRetry: () => void;
+}
+
+const TABLE_LABELS: Record<SyncTable, string> = {
+  profiles: 'profil',
+  settings: 'pengaturan',
+  calendar: 'kalender',
+};
+
+export default function SyncIndicator({ status, onRetry }: SyncIndicatorProps) {
+  const { pending, isSyncing, lastSyncedAt, lastError, conflicts } = status;
+  const nextAttempt = pending.length > 0
+    ? pending.reduce((earliest, op) => op.nextAttemptAt < earliest ? op.nextAttemptAt : earliest, pending[0].nextAttemptAt)
+    : null;
+
+  const details = [
+    ...pending.map(op => `${op.action === 'delete' ? 'Hapus' : 'Simpan'} ${TABLE_LABELS[op.table]}${op.attempts > 0 ? ` (gagal ${op.attempts}×)` : ''}`),
+    lastError && `Galat terakhir: ${lastError}`,
+    nextAttempt && !isSyncing && `Coba lagi ${format(new Date(nextAttempt), 'HH:mm:ss')} (klik untuk sekarang)`,
+    conflicts > 0 && `${conflicts} perubahan lokal diganti versi yang lebih baru dari perangkat lain`,
+    lastSyncedAt && `Terakhir tersinkron ${format(new Date(lastSyncedAt), 'HH:mm:ss')}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      onClick={onRetry}
+      disabled={pending.length === 0 || isSyncing}
+      title={details || 'Semua perubahan tersimpan'}
+      className={`flex items-center gap-1.5 text-[10px] uppercase tracking-widest px-3 py-1 rounded-full border transition-all ${
+        pending.length === 0 ? 'bg-white/10 border-white/20' : 'bg-amber-400/20 border-amber-300/40 text-amber-200 hover:bg-amber-400/30'
+      }`}
+    >
+      {isSyncing ? <Loader2 size={12} className="animate-spin" /> : pending.length > 0 ? <CloudOff size={12} /> : <Cloud size={12} />}
+      <span className="font-bold">
+        {pending.length === 0 ? 'Tersinkron' : `${pending.length} belum tersinkron`}
+      </span>
+    </button>
+  );
+}
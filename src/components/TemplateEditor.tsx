@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { MessageSquareText, Play, Loader2 } from 'lucide-react';
+import { AppSettings, AnnouncementKind, GroupTemplate } from '../types';
+import {
+  ANNOUNCEMENT_KIND_LABELS,
+  GROUP_TEMPLATE_PARTS,
+  TEMPLATE_PLACEHOLDERS,
+  SAMPLE_ITEM,
+  SAMPLE_GROUP_ITEMS,
+  buildGroupAnnouncement,
+  findUnknownPlaceholders,
+  isGroupKind,
+  renderTemplate,
+} from '../utils/announcement';
+import { speakAnnouncement } from '../services/ttsService';
+
+interface TemplateEditorProps {
+  settings: AppSettings;
+  onSave: (changes: Pick<AppSettings, 'templates' | 'groupTemplates'>) => void;
+}
+
+const KINDS = Object.keys(ANNOUNCEMENT_KIND_LABELS) as AnnouncementKind[];
+const PARTS = Object.keys(GROUP_TEMPLATE_PARTS) as (keyof GroupTemplate)[];
+
+const fieldClass = (hasError: boolean) =>
+  `w-full bg-indigo-50/50 border-2 rounded-xl px-3 py-2 text-sm focus:outline-none transition-all ${hasError ? 'border-rose-300 focus:border-rose-500' : 'border-indigo-100 focus:border-indigo-500'}`;
+
+export default function TemplateEditor({ settings, onSave }: TemplateEditorProps) {
+  const [kind, setKind] = useState<AnnouncementKind>('start');
+  // Lessons starting or ending together are announced with their own wording
+  const [isGroup, setIsGroup] = useState(false);
+  const [draft, setDraft] = useState(settings.templates[kind]);
+  const [groupDraft, setGroupDraft] = useState<GroupTemplate | null>(isGroupKind(kind) ? settings.groupTemplates[kind] : null);
+  const [activePart, setActivePart] = useState<keyof GroupTemplate>('intro');
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings.templates[kind]);
+    setGroupDraft(isGroupKind(kind) ? settings.groupTemplates[kind] : null);
+    if (!isGroupKind(kind)) setIsGroup(false);
+  }, [kind, settings.templates, settings.groupTemplates]);
+
+  const editingGroup = isGroup && isGroupKind(kind) && groupDraft;
+  const unknown = editingGroup
+    ? [...new Set(PARTS.flatMap(part => findUnknownPlaceholders(editingGroup[part])))]
+    : findUnknownPlaceholders(draft);
+  const isDirty = editingGroup
+    ? PARTS.some(part => editingGroup[part] !== settings.groupTemplates[kind][part])
+    : draft !== settings.templates[kind];
+  const preview = editingGroup
+    ? buildGroupAnnouncement(
+        { kind, time: SAMPLE_ITEM.startTime, items: SAMPLE_GROUP_ITEMS },
+        { ...settings, groupTemplates: { ...settings.groupTemplates, [kind]: editingGroup } },
+      ).join(' ')
+    : renderTemplate(draft, SAMPLE_ITEM, settings);
+
+  const insertPlaceholder = (name: string) => {
+    if (editingGroup) setGroupDraft({ ...editingGroup, [activePart]: `${editingGroup[activePart]}{${name}}` });
+    else setDraft(`${draft}{${name}}`);
+  };
+
+  const handleSave = () => {
+    if (editingGroup) onSave({ templates: settings.templates, groupTemplates: { ...settings.groupTemplates, [kind]: editingGroup } });
+    else onSave({ templates: { ...settings.templates, [kind]: draft }, groupTemplates: settings.groupTemplates });
+  };
+
+  const handleListen = async () => {
+    setIsPlaying(true);
+    try {
+      await speakAnnouncement(preview, settings);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center gap-2 border-b-2 border-indigo-50 pb-3">
+        <MessageSquareText className="text-indigo-500" size={20} />
+        <h2 className="font-serif italic text-xl text-indigo-900">Template Pengumuman</h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {KINDS.map(k => (
+          <button
+            key={k}
+            onClick={() => setKind(k)}
+            className={`py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${kind === k ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-400 hover:bg-indigo-100'}`}
+          >
+            {ANNOUNCEMENT_KIND_LABELS[k]}
+          </button>
+        ))}
+      </div>
+
+      {isGroupKind(kind) && (
+        <div className="flex bg-indigo-50 rounded-lg p-1">
+          {([false, true] as const).map(group => (
+            <button
+              key={String(group)}
+              onClick={() => setIsGroup(group)}
+              className={`flex-1 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${isGroup === group ? 'bg-white text-indigo-600 shadow' : 'text-indigo-400'}`}
+            >
+              {group ? 'Beberapa Kelas' : 'Satu Kelas'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {editingGroup ? (
+        <div className="space-y-2">
+          {PARTS.map(part => (
+            <div key={part} className="space-y-1">
+              <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">{GROUP_TEMPLATE_PARTS[part]}</label>
+              <textarea
+                value={editingGroup[part]}
+                onChange={(e) => setGroupDraft({ ...editingGroup, [part]: e.target.value })}
+                onFocus={() => setActivePart(part)}
+                rows={part === 'intro' ? 3 : 2}
+                className={fieldClass(findUnknownPlaceholders(editingGroup[part]).length > 0)}
+              />
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-400">
+            Bagian "Per Kelas" diulang untuk setiap kelas. Pengumuman yang terlalu panjang dipecah dan dilanjutkan dengan bagian "Lanjutan".
+          </p>
+        </div>
+      ) : (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={5}
+          className={fieldClass(unknown.length > 0)}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {TEMPLATE_PLACEHOLDERS.map(name => (
+          <button
+            key={name}
+            onClick={() => insertPlaceholder(name)}
+            className="font-mono text-[10px] bg-indigo-50 text-indigo-500 px-2 py-0.5 rounded hover:bg-indigo-100"
+          >
+            {`{${name}}`}
+          </button>
+        ))}
+      </div>
+
+      {unknown.length > 0 && (
+        <p className="text-[11px] text-rose-500 font-bold">
+          Placeholder tidak dikenal: {unknown.map(name => `{${name}}`).join(', ')}
+        </p>
+      )}
+
+      <div className="bg-indigo-50/50 rounded-lg p-3 text-xs text-slate-600 italic">{preview}</div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleListen}
+          disabled={isPlaying}
+          className="flex-1 flex items-center justify-center gap-2 bg-emerald-500 text-white py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-emerald-600 transition-all disabled:opacity-50"
+        >
+          {isPlaying ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} fill="currentColor" />}
+          Preview & Dengarkan
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || unknown.length > 0}
+          className="flex-1 bg-indigo-600 text-white py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-40"
+        >
+          Simpan
+        </button>
+      </div>
+    </div>
+  );
+}
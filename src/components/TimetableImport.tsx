@@ -0,0 +1,253 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Upload, Download, Loader2, AlertTriangle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ScheduleItem, ScheduleProfile } from '../types';
+import { describeItem } from '../utils/bells';
+import {
+  ColumnMapping, ImportMode, ImportStatus, TIMETABLE_COLUMNS, TIMETABLE_FIELDS,
+  applyImport, getChangedFields, guessMapping, parseTimetable, previewImport, timetableToRows,
+} from '../utils/timetable';
+import { SpreadsheetFormat, downloadSpreadsheet, readSpreadsheet } from '../services/spreadsheet';
+
+interface TimetableImportProps {
+  profile: ScheduleProfile;
+  onImport: (items: ScheduleItem[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-xs focus:outline-none focus:border-indigo-500 appearance-none cursor-pointer transition-all";
+const labelClass = "text-[10px] uppercase tracking-widest font-bold text-indigo-400";
+
+const STATUS_STYLES: Record<ImportStatus | 'error', { label: string; className: string }> = {
+  added: { label: 'Baru', className: 'bg-emerald-100 text-emerald-600' },
+  changed: { label: 'Diubah', className: 'bg-amber-100 text-amber-600' },
+  unchanged: { label: 'Tetap', className: 'bg-slate-100 text-slate-500' },
+  removed: { label: 'Dihapus', className: 'bg-rose-100 text-rose-600' },
+  error: { label: 'Error', className: 'bg-rose-500 text-white' },
+};
+
+export default function TimetableImport({ profile, onImport, onClose }: TimetableImportProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [cells, setCells] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [isReading, setIsReading] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const rows = await readSpreadsheet(file);
+      setCells(rows);
+      setFileName(file.name);
+      setMapping(guessMapping(rows[0] || []));
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      alert('File tidak dapat dibaca. Gunakan CSV atau XLSX.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleExport = (format: SpreadsheetFormat) => {
+    const name = `jadwal-${profile.name.toLowerCase().replace(/[^\w]+/g, '-')}`;
+    downloadSpreadsheet(name, timetableToRows(profile.items), format).catch(error => {
+      console.error('Error exporting timetable:', error);
+    });
+  };
+
+  const columnCount = Math.max(0, ...cells.map(row => row.length));
+  const columns = Array.from({ length: columnCount }, (_, i) => hasHeader && cells[0]?.[i] ? String(cells[0][i]) : `Kolom ${i + 1}`);
+
+  // Memoized so new rows keep the ids they were previewed with
+  const rows = useMemo(() => parseTimetable(cells, mapping, hasHeader), [cells, mapping, hasHeader]);
+  const entries = useMemo(() => previewImport(profile.items, rows, mode), [profile.items, rows, mode]);
+  const invalid = rows.filter(row => !row.item);
+  const count = (status: ImportStatus) => entries.filter(entry => entry.status === status).length;
+  const warningCount = entries.filter(entry => entry.warnings.length > 0).length;
+  const validCount = rows.length - invalid.length;
+  const visibleEntries = entries.filter(entry => entry.status !== 'unchanged' || entry.warnings.length > 0);
+
+  const handleApply = () => {
+    const removed = count('removed');
+    const message = [
+      `Terapkan ${validCount} baris ke profil "${profile.name}"?`,
+      removed > 0 ? `${removed} jadwal yang tidak ada di file akan dihapus.` : '',
+      invalid.length > 0 ? `${invalid.length} baris error akan dilewati.` : '',
+    ].filter(Boolean).join('\n');
+    if (!confirm(message)) return;
+    onImport(applyImport(entries));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-indigo-900/60 backdrop-blur-md">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        className="bg-white rounded-3xl shadow-2xl p-8 w-full max-w-4xl space-y-6 border border-indigo-50 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center border-b-2 border-indigo-50 pb-4">
+          <div>
+            <h3 className="font-serif italic text-3xl text-indigo-900">Impor / Ekspor Jadwal</h3>
+            <p className="text-xs text-slate-400">Profil: {profile.name} · {profile.items.length} jadwal</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-rose-500 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={isReading}
+            className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg shadow-md hover:bg-indigo-700 transition-all disabled:opacity-50"
+          >
+            {isReading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            <span className="text-xs font-bold uppercase">Pilih File</span>
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xlsx"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <span className="text-xs text-slate-500 truncate flex-1">{fileName || 'CSV atau XLSX, satu baris per jadwal'}</span>
+          {(['csv', 'xlsx'] as SpreadsheetFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="flex items-center gap-1 bg-emerald-100 text-emerald-600 px-3 py-2 rounded-lg hover:bg-emerald-500 hover:text-white transition-all"
+            >
+              <Download size={14} />
+              <span className="text-xs font-bold uppercase">{format}</span>
+            </button>
+          ))}
+        </div>
+
+        {cells.length > 0 && (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className={labelClass}>Pemetaan Kolom</label>
+                <label className="flex items-center gap-2 text-xs font-bold text-indigo-500 cursor-pointer">
+                  <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-indigo-600 w-4 h-4" />
+                  Baris pertama adalah judul kolom
+                </label>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {TIMETABLE_FIELDS.map(field => (
+                  <div key={field} className="space-y-1">
+                    <span className="text-[10px] font-bold text-slate-500">{TIMETABLE_COLUMNS[field].header}</span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {columns.map((column, i) => (
+                        <option key={i} value={i}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className={labelClass}>Pratinjau</label>
+                <div className="flex gap-1">
+                  {([['replace', 'Ganti Semua'], ['merge', 'Gabungkan']] as [ImportMode, string][]).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setMode(value)}
+                      className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all ${mode === value ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-400 hover:bg-indigo-100'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase">
+                {(['added', 'changed', 'unchanged', 'removed'] as ImportStatus[]).map(status => (
+                  <span key={status} className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[status].className}`}>
+                    {STATUS_STYLES[status].label}: {count(status)}
+                  </span>
+                ))}
+                <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES.error.className}`}>Error: {invalid.length}</span>
+                {warningCount > 0 && (
+                  <span className="px-2 py-0.5 rounded-full bg-amber-400 text-white">Peringatan: {warningCount}</span>
+                )}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto divide-y divide-indigo-50 border border-indigo-50 rounded-xl">
+                {invalid.map(row => (
+                  <div key={`error-${row.line}`} className="grid grid-cols-[60px_70px_1fr] gap-3 px-3 py-2 text-xs items-start">
+                    <span className="font-mono text-slate-400">baris {row.line}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold uppercase text-center ${STATUS_STYLES.error.className}`}>Error</span>
+                    <div className="text-rose-500 space-y-0.5">
+                      {row.errors.map((error, i) => <div key={i}>{error}</div>)}
+                    </div>
+                  </div>
+                ))}
+                {visibleEntries.map(entry => (
+                  <div key={`${entry.status}-${entry.item.id}`} className="grid grid-cols-[60px_70px_1fr] gap-3 px-3 py-2 text-xs items-start">
+                    <span className="font-mono text-slate-400">{entry.line ? `baris ${entry.line}` : '-'}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold uppercase text-center ${STATUS_STYLES[entry.status].className}`}>
+                      {STATUS_STYLES[entry.status].label}
+                    </span>
+                    <div className="space-y-0.5 min-w-0">
+                      <div className="font-bold text-slate-700 truncate">
+                        {entry.item.startTime}-{entry.item.endTime} · {describeItem(entry.item)}
+                        {entry.item.subject && <span className="font-normal text-slate-500"> · {entry.item.subject} · {entry.item.gender} {entry.item.teacher}</span>}
+                      </div>
+                      {entry.previous && entry.status === 'changed' && (
+                        <div className="text-[10px] text-amber-600">
+                          {getChangedFields(entry.previous, entry.item)
+                            .map(field => `${TIMETABLE_COLUMNS[field].header}: ${String(entry.previous![field] ?? '-')} → ${String(entry.item[field] ?? '-')}`)
+                            .join(' · ')}
+                        </div>
+                      )}
+                      {entry.warnings.map((warning, i) => (
+                        <div key={i} className="flex items-center gap-1 text-[10px] text-amber-600">
+                          <AlertTriangle size={10} /> {warning}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {invalid.length === 0 && visibleEntries.length === 0 && (
+                  <p className="text-xs text-slate-400 italic text-center py-6">Tidak ada perubahan.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <button
+                onClick={handleApply}
+                disabled={validCount === 0}
+                className="flex-1 bg-indigo-600 text-white py-4 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all disabled:opacity-50"
+              >
+                Terapkan {validCount} Baris
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-slate-100 text-slate-600 py-4 rounded-2xl text-sm font-bold uppercase tracking-widest hover:bg-slate-200 transition-all"
+              >
+                Batal
+              </button>
+            </div>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Volume2, ChevronUp, ChevronDown, Play, Loader2 } from 'lucide-react';
+import { AppSettings, TtsProviderId, TtsVoice } from '../types';
+import { TTS_PROVIDERS, speakAnnouncement } from '../services/ttsService';
+
+interface TtsSettingsProps {
+  settings: AppSettings;
+  onChange: (changes: Partial<Pick<AppSettings, 'ttsChain' | 'ttsVoices' | 'announcementGain'>>) => void;
+}
+
+const ALL_PROVIDERS = Object.keys(TTS_PROVIDERS) as TtsProviderId[];
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 appearance-none cursor-pointer transition-all";
+
+export default function TtsSettings({ settings, onChange }: TtsSettingsProps) {
+  const [voices, setVoices] = useState<Partial<Record<TtsProviderId, TtsVoice[]>>>({});
+  const [available, setAvailable] = useState<Partial<Record<TtsProviderId, boolean>>>({});
+  const [testingId, setTestingId] = useState<TtsProviderId | null>(null);
+
+  useEffect(() => {
+    ALL_PROVIDERS.forEach(async id => {
+      const provider = TTS_PROVIDERS[id];
+      const isAvailable = await provider.isAvailable().catch(() => false);
+      setAvailable(prev => ({ ...prev, [id]: isAvailable }));
+      if (isAvailable) {
+        const list = await provider.getVoices().catch(() => []);
+        setVoices(prev => ({ ...prev, [id]: list }));
+      }
+    });
+  }, []);
+
+  // Enabled providers in fallback order, then the disabled ones
+  const ordered = [...settings.ttsChain, ...ALL_PROVIDERS.filter(id => !settings.ttsChain.includes(id))];
+
+  const update = (ttsChain: TtsProviderId[], ttsVoices = settings.ttsVoices) => onChange({ ttsChain, ttsVoices });
+
+  const toggle = (id: TtsProviderId) => {
+    update(settings.ttsChain.includes(id)
+      ? settings.ttsChain.filter(p => p !== id)
+      : [...settings.ttsChain, id]);
+  };
+
+  const move = (id: TtsProviderId, offset: number) => {
+    const chain = [...settings.ttsChain];
+    const index = chain.indexOf(id);
+    const target = index + offset;
+    if (target < 0 || target >= chain.length) return;
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    update(chain);
+  };
+
+  const handleTest = async (id: TtsProviderId) => {
+    setTestingId(id);
+    await speakAnnouncement(`Tes suara pengumuman ${settings.schoolName}.`, { ...settings, ttsChain: [id] });
+    setTestingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Suara Pengumuman</label>
+        <Volume2 size={14} className="text-indigo-400" />
+      </div>
+      <div className="grid grid-cols-[1fr_48px] gap-2 items-center">
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.05}
+          value={settings.announcementGain}
+          onChange={(e) => onChange({ announcementGain: parseFloat(e.target.value) })}
+          className="accent-indigo-600"
+          title="Volume Pengumuman"
+        />
+        <span className="text-[10px] font-bold text-indigo-500 text-right">{Math.round(settings.announcementGain * 100)}%</span>
+      </div>
+      {settings.ttsChain.length === 0 && (
+        <p className="text-[11px] text-rose-500 font-bold">Aktifkan minimal satu mesin suara.</p>
+      )}
+      {ordered.map(id => {
+        const provider = TTS_PROVIDERS[id];
+        const position = settings.ttsChain.indexOf(id);
+        const isEnabled = position !== -1;
+        const list = voices[id] || [];
+        return (
+          <div key={id} className={`rounded-lg p-3 space-y-2 ${isEnabled ? 'bg-indigo-50/50' : 'bg-slate-50 opacity-60'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                <input type="checkbox" checked={isEnabled} onChange={() => toggle(id)} className="accent-indigo-600 w-4 h-4" />
+                {isEnabled && <span className="text-indigo-400">{position + 1}.</span>}
+                {provider.label}
+                {available[id] === false && <span className="text-[9px] uppercase text-amber-500">tidak tersedia</span>}
+              </label>
+              <div className="flex gap-1">
+                {isEnabled && (
+                  <>
+                    <button onClick={() => move(id, -1)} disabled={position === 0} className="p-1 text-indigo-400 hover:text-indigo-600 disabled:opacity-30" title="Naikkan">
+                      <ChevronUp size={14} />
+                    </button>
+                    <button onClick={() => move(id, 1)} disabled={position === settings.ttsChain.length - 1} className="p-1 text-indigo-400 hover:text-indigo-600 disabled:opacity-30" title="Turunkan">
+                      <ChevronDown size={14} />
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => handleTest(id)}
+                  disabled={testingId !== null || !available[id]}
+                  className="p-1.5 rounded-full bg-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all disabled:opacity-50"
+                  title="Test Suara"
+                >
+                  {testingId === id ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} fill="currentColor" />}
+                </button>
+              </div>
+            </div>
+            {list.length > 0 && (
+              <select
+                value={settings.ttsVoices[id]}
+                onChange={(e) => update(settings.ttsChain, { ...settings.ttsVoices, [id]: e.target.value })}
+                className={inputClass}
+              >
+                {id === 'browser' && <option value="">Bawaan (id-ID)</option>}
+                {list.map(voice => (
+                  <option key={voice.id} value={voice.id}>{voice.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
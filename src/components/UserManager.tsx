@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Plus, Trash2, KeyRound } from 'lucide-react';
+import { AppUser, UserRole } from '../types';
+import { ROLE_LABELS, USER_ROLES } from '../utils/roles';
+import { AuthMode, deleteUser, listUsers, saveUser } from '../services/authService';
+
+interface UserManagerProps {
+  mode: AuthMode;
+  currentUser: AppUser;
+}
+
+const inputClass = "w-full bg-indigo-50/50 border-2 border-indigo-100 rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500 transition-all";
+
+export default function UserManager({ mode, currentUser }: UserManagerProps) {
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [draft, setDraft] = useState({ username: '', password: '', role: 'operator' as UserRole });
+
+  const reload = () => listUsers(mode).then(setUsers).catch(error => console.error('Error loading users:', error));
+  useEffect(() => { reload(); }, [mode]);
+
+  // Rule violations (last admin, taken name, short password) are explained, not just logged
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+    reload();
+  };
+
+  const add = () => run(async () => {
+    await saveUser(mode, { id: Math.random().toString(36).substr(2, 9), username: draft.username, role: draft.role }, draft.password);
+    setDraft({ username: '', password: '', role: draft.role });
+  });
+
+  const resetPassword = (user: AppUser) => {
+    const password = prompt(`Kata sandi baru untuk ${user.username}:`);
+    if (password) run(() => saveUser(mode, user, password));
+  };
+
+  const remove = (user: AppUser) => {
+    if (confirm(`Hapus pengguna ${user.username}?`)) run(() => deleteUser(mode, user.id));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4 border border-indigo-50">
+      <div className="flex items-center gap-2 border-b-2 border-indigo-50 pb-3">
+        <Users className="text-indigo-500" size={20} />
+        <h2 className="font-serif italic text-xl text-indigo-900">Pengguna</h2>
+      </div>
+
+      <div className="space-y-2">
+        {users.map(user => (
+          <div key={user.id} className="flex items-center gap-2 rounded-lg p-2 bg-indigo-50/50">
+            <span className="flex-1 min-w-0 truncate text-sm font-bold text-slate-700">
+              {user.username}
+              {user.id === currentUser.id && <span className="ml-1 text-[10px] font-normal text-indigo-400">(Anda)</span>}
+            </span>
+            <select
+              value={user.role}
+              onChange={(e) => run(() => saveUser(mode, { ...user, role: e.target.value as UserRole }))}
+              className="bg-transparent text-[10px] font-bold uppercase text-indigo-500 focus:outline-none cursor-pointer"
+            >
+              {USER_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <button onClick={() => resetPassword(user)} className="p-1 text-slate-400 hover:text-indigo-600" title="Ganti Kata Sandi">
+              <KeyRound size={12} />
+            </button>
+            <button
+              onClick={() => remove(user)}
+              disabled={user.id === currentUser.id}
+              className="p-1 text-slate-400 hover:text-rose-500 disabled:opacity-30 disabled:hover:text-slate-400"
+              title="Hapus"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t-2 border-indigo-50 pt-3">
+        <label className="text-[10px] uppercase tracking-widest font-bold text-indigo-400">Tambah Pengguna</label>
+        <input
+          type="text"
+          value={draft.username}
+          onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+          placeholder="Nama pengguna"
+          autoComplete="off"
+          className={inputClass}
+        />
+        <div className="grid grid-cols-[1fr_110px_auto] gap-2">
+          <input
+            type="password"
+            value={draft.password}
+            onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+            placeholder="Kata sandi"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <select
+            value={draft.role}
+            onChange={(e) => setDraft({ ...draft, role: e.target.value as UserRole })}
+            className={`${inputClass} appearance-none cursor-pointer`}
+          >
+            {USER_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+          </select>
+          <button
+            onClick={add}
+            disabled={!draft.username.trim() || !draft.password}
+            className="p-2 rounded-full bg-indigo-100 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-50"
+            title="Tambah"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
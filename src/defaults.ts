@@ -0,0 +1,75 @@
+import { format } from 'date-fns';
+import { ScheduleItem, AppSettings, ScheduleProfile, Broadcast } from './types';
+import { DEFAULT_PROFILE_ID, profileFromLegacySchedule } from './utils/profiles';
+import { DEFAULT_GROUP_TEMPLATES, DEFAULT_TEMPLATES } from './utils/announcement';
+import { DEFAULT_PRONUNCIATIONS } from './utils/pronunciation';
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export const DEFAULT_SCHEDULE: ScheduleItem[] = [
+  { id: '1', type: 'lesson', period: 1, startTime: '07:00', endTime: '07:45', teacher: 'Budi Santoso', gender: 'Bapak', subject: 'Matematika', className: 'X-A', isActive: true, days: WEEKDAYS },
+  { id: '2', type: 'lesson', period: 2, startTime: '07:45', endTime: '08:30', teacher: 'Siti Aminah', gender: 'Ibu', subject: 'Bahasa Indonesia', className: 'XI-B', isActive: true, days: WEEKDAYS },
+  { id: '3', type: 'lesson', period: 3, startTime: '08:30', endTime: '09:15', teacher: 'Siti Aminah', gender: 'Ibu', subject: 'Bahasa Indonesia', className: 'XI-B', isActive: true, days: [1, 2, 3, 4] },
+  { id: '4', type: 'lesson', period: 4, startTime: '09:30', endTime: '10:15', teacher: 'Joko Widodo', gender: 'Bapak', subject: 'Fisika', className: 'XII-C', isActive: true, days: [1, 2, 3, 4] },
+  { id: '5', type: 'lesson', period: 5, startTime: '10:15', endTime: '11:00', teacher: 'Joko Widodo', gender: 'Bapak', subject: 'Fisika', className: 'XII-C', isActive: true, days: [1, 2, 3, 4] },
+  // Jumat dipersingkat untuk sholat Jumat
+  { id: '6', type: 'lesson', period: 3, startTime: '08:30', endTime: '09:00', teacher: 'Siti Aminah', gender: 'Ibu', subject: 'Bahasa Indonesia', className: 'XI-B', isActive: true, days: [5] },
+  { id: '7', type: 'lesson', period: 4, startTime: '09:00', endTime: '09:30', teacher: 'Joko Widodo', gender: 'Bapak', subject: 'Fisika', className: 'XII-C', isActive: true, days: [5] },
+  { id: '8', type: 'break', label: 'Istirahat', period: 0, startTime: '09:15', endTime: '09:30', teacher: '', gender: 'Bapak', subject: '', className: '', isActive: true, days: [1, 2, 3, 4] },
+  { id: '9', type: 'dismissal', label: 'Pulang', period: 0, startTime: '11:00', endTime: '11:00', teacher: '', gender: 'Bapak', subject: '', className: '', isActive: true, days: [1, 2, 3, 4] },
+  { id: '10', type: 'dismissal', label: 'Pulang', period: 0, startTime: '09:30', endTime: '09:30', teacher: '', gender: 'Bapak', subject: '', className: '', isActive: true, days: [5] },
+];
+
+export const DEFAULT_BROADCASTS: Broadcast[] = [
+  { id: 'drill', title: 'Simulasi Gempa', urgency: 'emergency', chimeId: 'builtin-alarm', repeat: 3, text: 'Perhatian, perhatian. Ini adalah simulasi gempa bumi. Seluruh siswa dan guru segera berlindung di bawah meja, lalu keluar dengan tertib menuju titik kumpul di lapangan.' },
+  { id: 'evacuation', title: 'Evakuasi', urgency: 'emergency', chimeId: 'builtin-alarm', repeat: 3, text: 'Perhatian, keadaan darurat. Seluruh warga sekolah harap segera meninggalkan gedung melalui jalur evakuasi terdekat dan berkumpul di lapangan. Tetap tenang dan ikuti arahan guru.' },
+  { id: 'office-call', title: 'Panggilan ke Kantor', urgency: 'normal', chimeId: 'builtin-dingdong', repeat: 2, text: 'Panggilan kepada ananda ..., kelas ..., ditunggu di kantor tata usaha sekarang. Terima kasih.' },
+  { id: 'ceremony', title: 'Persiapan Upacara', urgency: 'normal', chimeId: 'builtin-westminster', repeat: 1, text: 'Perhatian kepada seluruh siswa. Upacara bendera akan dimulai sepuluh menit lagi. Silakan bersiap dan berkumpul di lapangan.' },
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  schoolName: 'SMP ISLAM ARRAUDHOH',
+  isAutoEnabled: true,
+  ttsChain: ['gemini', 'local', 'browser'],
+  ttsVoices: { gemini: 'Kore', local: 'id', browser: '' },
+  announcementGain: 1,
+  maxAnnouncementLength: 400,
+  isRotationEnabled: false,
+  rotationAnchorDate: format(new Date(), 'yyyy-MM-dd'),
+  activeProfileId: DEFAULT_PROFILE_ID,
+  templates: DEFAULT_TEMPLATES,
+  groupTemplates: DEFAULT_GROUP_TEMPLATES,
+  chimes: [],
+  typeChimes: {},
+  missedBellPolicy: 'ring-late',
+  lateRingWindow: 5,
+  savedBroadcasts: DEFAULT_BROADCASTS,
+  teachers: [],
+  subjects: [],
+  classes: [],
+  pronunciations: DEFAULT_PRONUNCIATIONS,
+  primaryStationId: null,
+  timezone: 'Asia/Jakarta',
+  marqueeMessages: [
+    { id: 'welcome', text: 'Selamat Datang di SMP ISLAM ARRAUDHOH Kec. Klapanunggal Kab. Bogor', isActive: true, startDate: null, endDate: null, startTime: null, endTime: null },
+  ],
+};
+
+// Stored settings may predate newer fields; nested objects are merged one level deep.
+// Settings saved before the TTS chain existed carry a single Gemini `voiceName`.
+export function mergeSettings(saved: Partial<AppSettings> & { voiceName?: string }): AppSettings {
+  const { voiceName, ...rest } = saved;
+  return {
+    ...DEFAULT_SETTINGS,
+    ...rest,
+    templates: { ...DEFAULT_TEMPLATES, ...rest.templates },
+    groupTemplates: { ...DEFAULT_GROUP_TEMPLATES, ...rest.groupTemplates },
+    ttsVoices: {
+      ...DEFAULT_SETTINGS.ttsVoices,
+      ...(voiceName ? { gemini: voiceName } : {}),
+      ...rest.ttsVoices,
+    },
+  };
+}
+
+export const DEFAULT_PROFILES: ScheduleProfile[] = [profileFromLegacySchedule(DEFAULT_SCHEDULE)];
@@ -3,8 +3,11 @@ import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 
+// /kiosk is the hallway display; every other path is the console
+const isKiosk = window.location.pathname.replace(/\/$/, '') === '/kiosk';
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <App kiosk={isKiosk} />
   </StrictMode>,
 );
@@ -0,0 +1,104 @@
+export type AnnouncementPriority = 'emergency' | 'scheduled' | 'test';
+
+export const PRIORITY_RANK: Record<AnnouncementPriority, number> = { emergency: 3, scheduled: 2, test: 1 };
+
+export type AbortReason = 'skipped' | 'interrupted';
+
+export interface AnnouncementJob {
+  id: string;
+  priority: AnnouncementPriority;
+  label: string;
+  enqueuedAt: string; // ISO
+  // Must stop promptly once `signal` aborts; `signal.reason` is an AbortReason.
+  run: (signal: AbortSignal) => Promise<void>;
+  // Checked right before playing, e.g. a bell that has waited past its late window.
+  isStale?: () => boolean;
+  // Called for jobs that never play: cancelled, stale, or a test cut off by a higher priority.
+  onDrop?: (reason: string) => void;
+}
+
+export interface QueueSnapshot {
+  current: AnnouncementJob | null;
+  pending: AnnouncementJob[];
+}
+
+export interface AnnouncementQueue {
+  enqueue: (job: AnnouncementJob) => void;
+  cancel: (id: string) => void;
+  skip: () => void;
+  isBusy: () => boolean;
+}
+
+// One announcement plays at a time. Higher priorities go first and interrupt
+// whatever lower-priority job is playing; an interrupted scheduled bell is put
+// back at the head of its priority and replayed, an interrupted test is dropped.
+export function createAnnouncementQueue(onChange: (snapshot: QueueSnapshot) => void): AnnouncementQueue {
+  let current: AnnouncementJob | null = null;
+  let controller: AbortController | null = null;
+  let pending: AnnouncementJob[] = [];
+
+  const emit = () => onChange({ current, pending: [...pending] });
+
+  // FIFO within a priority; `atFront` puts the job ahead of its equals
+  const insert = (job: AnnouncementJob, atFront = false) => {
+    const rank = PRIORITY_RANK[job.priority];
+    const index = pending.findIndex(other => atFront
+      ? PRIORITY_RANK[other.priority] <= rank
+      : PRIORITY_RANK[other.priority] < rank);
+    pending.splice(index === -1 ? pending.length : index, 0, job);
+  };
+
+  const playNext = async () => {
+    if (current) return;
+    const job = pending.shift();
+    if (!job) {
+      emit();
+      return;
+    }
+    if (job.isStale?.()) {
+      job.onDrop?.('stale');
+      playNext();
+      return;
+    }
+
+    current = job;
+    controller = new AbortController();
+    const { signal } = controller;
+    emit();
+    try {
+      await job.run(signal);
+    } catch (error) {
+      console.error(`Announcement "${job.label}" failed:`, error);
+    } finally {
+      current = null;
+      controller = null;
+      if (signal.reason === 'interrupted') {
+        if (job.priority === 'test') job.onDrop?.('interrupted');
+        else insert(job, true);
+      }
+      playNext();
+    }
+  };
+
+  return {
+    enqueue(job) {
+      insert(job);
+      if (current && controller && PRIORITY_RANK[job.priority] > PRIORITY_RANK[current.priority]) {
+        controller.abort('interrupted' satisfies AbortReason);
+      }
+      emit();
+      playNext();
+    },
+    cancel(id) {
+      const job = pending.find(p => p.id === id);
+      if (!job) return;
+      pending = pending.filter(p => p !== job);
+      job.onDrop?.('cancelled');
+      emit();
+    },
+    skip() {
+      controller?.abort('skipped' satisfies AbortReason);
+    },
+    isBusy: () => current !== null,
+  };
+}
@@ -0,0 +1,188 @@
+import { AppSettings, AppUser, BellLogEntry, Broadcast, BroadcastEvent, CalendarEntry, ChangeEvent, PlaybackStatus, RingEvent, ScheduleProfile, StationsEvent, TtsVoice } from '../types';
+import { LocalStation, loadStation, loadStationKey } from './station';
+
+export interface ServerState {
+  profiles: ScheduleProfile[];
+  settings: AppSettings;
+  calendar: CalendarEntry[];
+}
+
+const SESSION_KEY = 'school_bell_session';
+
+// The session token survives reloads; without one the server treats this browser as a viewer.
+export function setSessionToken(token: string | null) {
+  if (token) localStorage.setItem(SESSION_KEY, token);
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+// For the few calls that bypass request(), such as raw chime uploads
+export function getAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem(SESSION_KEY);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    // The station id lets the server tell this console not to re-apply its own change
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Bell-Station': loadStation().id,
+      'X-Bell-Station-Key': loadStationKey(),
+      ...getAuthHeaders(),
+      ...init?.headers,
+    },
+  });
+  if (!response.ok) {
+    // Rule violations (e.g. removing the last admin) come back with a message worth showing
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `API ${init?.method || 'GET'} ${path} failed with ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// Returns null when the app is served without the bell server (plain `vite`),
+// in which case the SPA fallback answers /api/* with index.html.
+export async function fetchServerState(): Promise<ServerState | null> {
+  try {
+    const response = await fetch('/api/state');
+    if (!response.ok || !response.headers.get('content-type')?.includes('application/json')) {
+      return null;
+    }
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+export function saveProfile(profile: ScheduleProfile) {
+  return request<ScheduleProfile>(`/profiles/${profile.id}`, { method: 'PUT', body: JSON.stringify(profile) });
+}
+
+export function deleteProfile(id: string) {
+  return request<void>(`/profiles/${id}`, { method: 'DELETE' });
+}
+
+export function saveSettings(settings: AppSettings) {
+  return request<AppSettings>('/settings', { method: 'PUT', body: JSON.stringify(settings) });
+}
+
+export function setAutoEnabled(enabled: boolean) {
+  return request<AppSettings>('/settings/auto', { method: 'PUT', body: JSON.stringify({ enabled }) });
+}
+
+export function saveCalendarEntry(entry: CalendarEntry) {
+  return request<CalendarEntry>(`/calendar/${entry.id}`, { method: 'PUT', body: JSON.stringify(entry) });
+}
+
+export function deleteCalendarEntry(id: string) {
+  return request<void>(`/calendar/${id}`, { method: 'DELETE' });
+}
+
+export function fetchBellLog(from: string, to: string) {
+  return request<BellLogEntry[]>(`/log?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+}
+
+export function saveBellLogEntry(entry: BellLogEntry) {
+  return request<BellLogEntry>(`/log/${entry.id}`, { method: 'PUT', body: JSON.stringify(entry) });
+}
+
+// The server logs it and pushes it to every connected browser, including this one.
+export function sendBroadcast(broadcast: Broadcast) {
+  return request<BellLogEntry>('/broadcast', { method: 'POST', body: JSON.stringify(broadcast) });
+}
+
+export interface AuthStatus {
+  user: AppUser | null;
+  needsSetup: boolean; // no account exists yet
+}
+
+interface SessionResponse {
+  token: string;
+  user: AppUser;
+}
+
+export function fetchAuthStatus() {
+  return request<AuthStatus>('/auth/status');
+}
+
+export async function login(username: string, password: string): Promise<AppUser> {
+  const session = await request<SessionResponse>('/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+  setSessionToken(session.token);
+  return session.user;
+}
+
+export async function setupAdmin(username: string, password: string): Promise<AppUser> {
+  const session = await request<SessionResponse>('/auth/setup', { method: 'POST', body: JSON.stringify({ username, password }) });
+  setSessionToken(session.token);
+  return session.user;
+}
+
+export async function logout() {
+  await request<void>('/auth/logout', { method: 'POST' }).catch(() => undefined);
+  setSessionToken(null);
+}
+
+export function fetchUsers() {
+  return request<AppUser[]>('/users');
+}
+
+export function saveUser(user: AppUser, password?: string) {
+  return request<AppUser>(`/users/${user.id}`, { method: 'PUT', body: JSON.stringify({ ...user, password }) });
+}
+
+export function deleteUser(id: string) {
+  return request<void>(`/users/${id}`, { method: 'DELETE' });
+}
+
+export function reportPlayback(status: PlaybackStatus) {
+  return request<void>('/playback', { method: 'POST', body: JSON.stringify(status) });
+}
+
+// Milliseconds since the epoch on the bell server's clock
+export async function fetchServerTime(): Promise<number> {
+  const body = await request<{ now: number }>('/time');
+  return body.now;
+}
+
+export interface LocalTtsInfo {
+  engine: 'piper' | 'espeak' | null;
+  voices: TtsVoice[];
+}
+
+export function fetchLocalTtsInfo() {
+  return request<LocalTtsInfo>('/tts/voices');
+}
+
+export function synthesizeLocalSpeech(text: string, voice: string) {
+  return request<{ data: string; mimeType: string }>('/tts', { method: 'POST', body: JSON.stringify({ text, voice }) });
+}
+
+export interface ServerEventHandlers {
+  onRing: (event: RingEvent) => void;
+  onMissed: (entry: BellLogEntry) => void;
+  onBroadcast: (event: BroadcastEvent) => void;
+  onChange: (event: ChangeEvent) => void;
+  onStations: (event: StationsEvent) => void;
+  onPlayback: (status: PlaybackStatus) => void;
+  onConnectionChange: (isConnected: boolean) => void;
+}
+
+export function subscribeToServer(station: LocalStation, handlers: ServerEventHandlers): () => void {
+  // EventSource cannot send headers, so the key travels in the query
+  const query = new URLSearchParams({ station: station.id, key: loadStationKey(), name: station.name, play: station.canPlay ? '1' : '0' });
+  const source = new EventSource(`/api/events?${query}`);
+  const listen = <T>(event: string, handler: (data: T) => void) =>
+    source.addEventListener(event, (e) => handler(JSON.parse((e as MessageEvent).data)));
+
+  source.onopen = () => handlers.onConnectionChange(true);
+  // EventSource reconnects on its own; we only report the gap.
+  source.onerror = () => handlers.onConnectionChange(false);
+  listen('ring', handlers.onRing);
+  listen('missed', handlers.onMissed);
+  listen('broadcast', handlers.onBroadcast);
+  listen('change', handlers.onChange);
+  listen('stations', handlers.onStations);
+  listen('playback', handlers.onPlayback);
+  return () => source.close();
+}
@@ -0,0 +1,127 @@
+import { AudioClip } from './audioPlayer';
+
+export type AudioCacheStatus = 'cached' | 'missing' | 'generating' | 'error';
+
+export interface AudioCacheRequest {
+  id: string;   // schedule item id, used only for status reporting
+  text: string;
+}
+
+// A TTS provider/voice pair that produces storable audio. `voice` namespaces
+// the cache so switching provider or voice never replays stale audio.
+export interface AudioSynthesizer {
+  voice: string;
+  synthesize: (text: string) => Promise<AudioClip | undefined>;
+}
+
+interface CachedAudio {
+  key: string;
+  text: string;
+  voice: string;
+  data: string; // base64 audio as returned by the TTS provider
+  mimeType: string;
+  createdAt: string;
+}
+
+const DB_NAME = 'school_bell_audio';
+const STORE = 'announcements';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export async function getCacheKey(text: string, voice: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${voice}\u0000${text}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Entries written before the format was recorded count as misses.
+export async function getCachedAudio(text: string, voice: string): Promise<AudioClip | undefined> {
+  try {
+    const key = await getCacheKey(text, voice);
+    const entry = await run<CachedAudio | undefined>('readonly', store => store.get(key));
+    return entry?.mimeType ? { data: entry.data, mimeType: entry.mimeType } : undefined;
+  } catch (error) {
+    console.error('Error reading audio cache:', error);
+    return undefined;
+  }
+}
+
+export async function putCachedAudio(text: string, voice: string, clip: AudioClip) {
+  try {
+    const key = await getCacheKey(text, voice);
+    const entry: CachedAudio = { key, text, voice, ...clip, createdAt: new Date().toISOString() };
+    await run('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error('Error writing audio cache:', error);
+  }
+}
+
+// Generates audio on a cache miss (or always, when forced) and stores it.
+export async function ensureCachedAudio(text: string, synth: AudioSynthesizer, force = false): Promise<AudioClip | undefined> {
+  if (!force) {
+    const cached = await getCachedAudio(text, synth.voice);
+    if (cached) return cached;
+  }
+  const clip = await synth.synthesize(text);
+  if (clip) await putCachedAudio(text, synth.voice, clip);
+  return clip;
+}
+
+let warmRun = 0;
+
+// Walks every request one at a time so a large timetable doesn't hit TTS rate
+// limits. Starting a new run cancels the previous one; only a run that finishes
+// prunes audio that no longer belongs to any schedule item.
+export async function warmAudioCache(
+  requests: AudioCacheRequest[],
+  synth: AudioSynthesizer,
+  onStatus: (id: string, status: AudioCacheStatus) => void,
+) {
+  const runId = ++warmRun;
+  const keys = new Set<string>();
+
+  for (const { id, text } of requests) {
+    if (runId !== warmRun) return;
+    keys.add(await getCacheKey(text, synth.voice));
+    if (await getCachedAudio(text, synth.voice)) {
+      onStatus(id, 'cached');
+      continue;
+    }
+    onStatus(id, 'generating');
+    const data = await ensureCachedAudio(text, synth, true).catch(() => undefined);
+    onStatus(id, data ? 'cached' : 'error');
+  }
+
+  if (runId !== warmRun) return;
+  try {
+    const allKeys = await run<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    await Promise.all(allKeys
+      .filter(key => !keys.has(key as string))
+      .map(key => run('readwrite', store => store.delete(key))));
+  } catch (error) {
+    console.error('Error pruning audio cache:', error);
+  }
+}
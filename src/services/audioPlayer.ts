@@ -0,0 +1,122 @@
+// Base64 audio as returned by a TTS provider, tagged with its real format.
+export interface AudioClip {
+  data: string;
+  mimeType: string;
+}
+
+// Extra time a sound may take past its own length before it counts as stuck
+export const PLAYBACK_MARGIN_MS = 2000;
+
+let audioContext: AudioContext | null = null;
+const stateListeners = new Set<(state: AudioContextState) => void>();
+
+// One context for chimes and announcements so both run on the same clock.
+export const getAudioContext = () => {
+  if (!audioContext) {
+    const ctx = audioContext = new AudioContext();
+    ctx.onstatechange = () => stateListeners.forEach(listener => listener(ctx.state));
+  }
+  return audioContext;
+};
+
+// Calls `listener` with the current state and again on every change, so the
+// page can ask for a click while the browser keeps audio suspended.
+export function watchAudioState(listener: (state: AudioContextState) => void): () => void {
+  stateListeners.add(listener);
+  listener(getAudioContext().state);
+  return () => { stateListeners.delete(listener); };
+}
+
+// Browsers keep the context suspended until someone interacts with the page,
+// and resume() does not settle until then, so it only gets a moment.
+export async function ensureAudioRunning(): Promise<AudioContext> {
+  const ctx = getAudioContext();
+  if (ctx.state !== 'running') {
+    await Promise.race([ctx.resume(), new Promise(resolve => setTimeout(resolve, 500))]);
+  }
+  if (ctx.state !== 'running') throw new Error('Audio is blocked by the browser until someone clicks the page');
+  return ctx;
+}
+
+// Only works from inside a click or key handler.
+export const unlockAudio = () => getAudioContext().resume();
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// e.g. "audio/L16;codec=pcm;rate=24000" from Gemini TTS
+const parseMimeType = (mimeType: string) => {
+  const [type, ...params] = mimeType.split(';').map(part => part.trim());
+  const options = Object.fromEntries(params.map(param => param.split('=') as [string, string]));
+  return { type: type.toLowerCase(), rate: parseInt(options.rate) || 24000, channels: parseInt(options.channels) || 1 };
+};
+
+export const isRawPcm = (mimeType: string) => {
+  const { type } = parseMimeType(mimeType);
+  return type === 'audio/l16' || type === 'audio/pcm';
+};
+
+// Raw PCM has no header for decodeAudioData to read, so the samples (16-bit
+// little-endian, interleaved) are copied into an AudioBuffer by hand.
+const decodePcm = (ctx: AudioContext, bytes: Uint8Array, rate: number, channels: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames = Math.floor(bytes.byteLength / 2 / channels);
+  const buffer = ctx.createBuffer(channels, Math.max(frames, 1), rate);
+  for (let channel = 0; channel < channels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < frames; i++) {
+      samples[i] = view.getInt16((i * channels + channel) * 2, true) / 32768;
+    }
+  }
+  return buffer;
+};
+
+export async function decodeAudio(clip: AudioClip): Promise<AudioBuffer> {
+  const ctx = getAudioContext();
+  const bytes = base64ToBytes(clip.data);
+  const { rate, channels } = parseMimeType(clip.mimeType);
+  if (isRawPcm(clip.mimeType)) return decodePcm(ctx, bytes, rate, channels);
+  return ctx.decodeAudioData(bytes.buffer);
+}
+
+// Plays an already decoded buffer; resolves when the last sample has played
+// or as soon as `signal` aborts. Rejects when the browser blocks audio or the
+// buffer never finishes, so the caller can fall back and log it.
+export async function playBuffer(buffer: AudioBuffer, gain = 1, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return;
+  const ctx = await ensureAudioRunning();
+  const source = ctx.createBufferSource();
+  const volume = ctx.createGain();
+  source.buffer = buffer;
+  volume.gain.value = gain;
+  source.connect(volume).connect(ctx.destination);
+  await new Promise<void>((resolve, reject) => {
+    const stop = () => source.stop();
+    const cleanUp = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+      source.disconnect();
+    };
+    // A context suspended halfway through never fires onended
+    const timer = setTimeout(() => {
+      source.onended = null;
+      source.stop();
+      cleanUp();
+      reject(new Error('Audio did not finish playing, audio may have been suspended'));
+    }, buffer.duration * 1000 + PLAYBACK_MARGIN_MS);
+    source.onended = () => {
+      cleanUp();
+      resolve();
+    };
+    signal?.addEventListener('abort', stop);
+    source.start();
+  });
+}
+
+export async function playAudio(clip: AudioClip, gain = 1, signal?: AbortSignal): Promise<void> {
+  await playBuffer(await decodeAudio(clip), gain, signal);
+}
@@ -0,0 +1,140 @@
+import { User } from '@supabase/supabase-js';
+import { AppUser } from '../types';
+import { MIN_PASSWORD_LENGTH, checkUserChange, isUserRole } from '../utils/roles';
+import { supabase } from './supabaseClient';
+import * as api from './apiClient';
+
+// Follows the storage backend: accounts live on the bell server, in Supabase Auth,
+// or, with neither, in this browser's localStorage.
+export type AuthMode = 'server' | 'supabase' | 'local';
+
+export type AuthStatus = api.AuthStatus;
+
+// Supabase users are created in the Supabase dashboard, where only the service
+// role can set app_metadata, so a user cannot promote themselves.
+const fromSupabaseUser = (user: User): AppUser => ({
+  id: user.id,
+  username: user.email || user.id,
+  role: isUserRole(user.app_metadata?.role) ? user.app_metadata.role : 'viewer',
+});
+
+// The local stand-in keeps honest people out of the settings on a shared
+// browser. Anyone with the developer tools can still edit localStorage.
+interface LocalUser extends AppUser {
+  salt: string;
+  hash: string;
+}
+
+const USERS_KEY = 'school_bell_users';
+const LOCAL_SESSION_KEY = 'school_bell_local_user';
+
+const loadLocalUsers = (): LocalUser[] => JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
+const saveLocalUsers = (users: LocalUser[]) => localStorage.setItem(USERS_KEY, JSON.stringify(users));
+const toPublicUser = ({ id, username, role }: AppUser): AppUser => ({ id, username, role });
+
+async function hashLocalPassword(password: string, salt: string): Promise<string> {
+  // crypto.subtle only exists on https:// or localhost
+  if (!crypto.subtle) throw new Error('Login lokal butuh HTTPS atau localhost');
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: 100000 },
+    key,
+    256,
+  );
+  return Array.from(new Uint8Array(bits), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function createLocalCredentials(password: string) {
+  const salt = Math.random().toString(36).substr(2, 9) + Math.random().toString(36).substr(2, 9);
+  return { salt, hash: await hashLocalPassword(password, salt) };
+}
+
+const checkPassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Kata sandi minimal ${MIN_PASSWORD_LENGTH} karakter`);
+};
+
+export async function getAuthStatus(mode: AuthMode): Promise<AuthStatus> {
+  if (mode === 'server') return api.fetchAuthStatus();
+  if (mode === 'supabase' && supabase) {
+    const { data } = await supabase.auth.getSession();
+    return { user: data.session ? fromSupabaseUser(data.session.user) : null, needsSetup: false };
+  }
+  const users = loadLocalUsers();
+  const user = users.find(u => u.id === localStorage.getItem(LOCAL_SESSION_KEY));
+  return { user: user ? toPublicUser(user) : null, needsSetup: users.length === 0 };
+}
+
+export async function signIn(mode: AuthMode, username: string, password: string): Promise<AppUser> {
+  if (mode === 'server') {
+    return api.login(username, password).catch(() => {
+      throw new Error('Nama pengguna atau kata sandi salah');
+    });
+  }
+  if (mode === 'supabase' && supabase) {
+    const { data, error } = await supabase.auth.signInWithPassword({ email: username.trim(), password });
+    if (error || !data.user) throw new Error('Email atau kata sandi salah');
+    return fromSupabaseUser(data.user);
+  }
+  const user = loadLocalUsers().find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+  if (!user || await hashLocalPassword(password, user.salt) !== user.hash) {
+    throw new Error('Nama pengguna atau kata sandi salah');
+  }
+  localStorage.setItem(LOCAL_SESSION_KEY, user.id);
+  return toPublicUser(user);
+}
+
+// Creates the first admin; refused once any account exists.
+export async function setupAdmin(mode: AuthMode, username: string, password: string): Promise<AppUser> {
+  checkPassword(password);
+  if (mode === 'server') return api.setupAdmin(username.trim(), password);
+  if (loadLocalUsers().length > 0) throw new Error('Admin sudah dibuat');
+  const user: LocalUser = {
+    id: Math.random().toString(36).substr(2, 9),
+    username: username.trim(),
+    role: 'admin',
+    ...await createLocalCredentials(password),
+  };
+  saveLocalUsers([user]);
+  localStorage.setItem(LOCAL_SESSION_KEY, user.id);
+  return toPublicUser(user);
+}
+
+export async function signOut(mode: AuthMode) {
+  if (mode === 'server') await api.logout();
+  else if (mode === 'supabase' && supabase) await supabase.auth.signOut();
+  else localStorage.removeItem(LOCAL_SESSION_KEY);
+}
+
+export const canManageUsers = (mode: AuthMode) => mode !== 'supabase';
+
+export async function listUsers(mode: AuthMode): Promise<AppUser[]> {
+  if (mode === 'server') return api.fetchUsers();
+  return loadLocalUsers().map(toPublicUser).sort((a, b) => a.username.localeCompare(b.username));
+}
+
+// `password` is required for a new user and resets the password of an existing one.
+export async function saveUser(mode: AuthMode, user: AppUser, password?: string): Promise<AppUser> {
+  if (password !== undefined) checkPassword(password);
+  if (mode === 'server') return api.saveUser(user, password);
+
+  const users = loadLocalUsers();
+  const existing = users.find(u => u.id === user.id);
+  const problem = checkUserChange(users, user.id, user);
+  if (problem) throw new Error(problem);
+  if (!existing && password === undefined) throw new Error('Pengguna baru butuh kata sandi');
+
+  const credentials = password !== undefined ? await createLocalCredentials(password) : { salt: existing!.salt, hash: existing!.hash };
+  const saved: LocalUser = { ...user, username: user.username.trim(), ...credentials };
+  saveLocalUsers(existing ? users.map(u => u.id === user.id ? saved : u) : [...users, saved]);
+  return toPublicUser(saved);
+}
+
+export async function deleteUser(mode: AuthMode, id: string) {
+  if (mode === 'server') return api.deleteUser(id);
+  const users = loadLocalUsers();
+  const problem = id === localStorage.getItem(LOCAL_SESSION_KEY)
+    ? 'Tidak bisa menghapus pengguna yang sedang masuk'
+    : checkUserChange(users, id, null);
+  if (problem) throw new Error(problem);
+  saveLocalUsers(users.filter(u => u.id !== id));
+}
@@ -0,0 +1,205 @@
+import { AppSettings, Chime, ScheduleItem } from '../types';
+import { BELL_TYPES } from '../utils/bells';
+import { PLAYBACK_MARGIN_MS, ensureAudioRunning } from './audioPlayer';
+import { getAuthHeaders } from './apiClient';
+
+// Synthesized with the Web Audio API so the default bell never depends on the network.
+const MELODIES: Record<string, [number, number][]> = {
+  dingdong: [[659.25, 0.6], [523.25, 0.9]],
+  westminster: [[659.25, 0.5], [523.25, 0.5], [587.33, 0.5], [392.0, 1.0]],
+  alarm: [[880, 0.25], [660, 0.25], [880, 0.25], [660, 0.25], [880, 0.25], [660, 0.25]],
+};
+
+export const BUILTIN_CHIMES: Chime[] = [
+  { id: 'builtin-dingdong', name: 'Ding Dong (bawaan)', src: 'builtin:dingdong', repeat: 1, volume: 0.8 },
+  { id: 'builtin-westminster', name: 'Westminster (bawaan)', src: 'builtin:westminster', repeat: 1, volume: 0.8 },
+  { id: 'builtin-alarm', name: 'Alarm (bawaan)', src: 'builtin:alarm', repeat: 2, volume: 1 },
+];
+
+const DB_NAME = 'school_bell_chimes';
+const STORE = 'files';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export function getAllChimes(settings: AppSettings): Chime[] {
+  return [...BUILTIN_CHIMES, ...settings.chimes];
+}
+
+export function findChime(settings: AppSettings, id: string | undefined): Chime | undefined {
+  return getAllChimes(settings).find(chime => chime.id === id);
+}
+
+// Item override first, then the per-type assignment, then the type's built-in default.
+export function resolveChime(item: ScheduleItem, settings: AppSettings): Chime {
+  return findChime(settings, item.chimeId)
+    || findChime(settings, settings.typeChimes[item.type])
+    || getFallbackChime(item);
+}
+
+// The type's built-in melody: plays when the chosen file can't be loaded here.
+export function getFallbackChime(item: ScheduleItem): Chime {
+  return BUILTIN_CHIMES.find(chime => chime.id === BELL_TYPES[item.type].chime) || BUILTIN_CHIMES[0];
+}
+
+// Uploads go to the bell server when there is one, otherwise into this browser's IndexedDB.
+export async function storeChimeFile(file: File, isServerMode: boolean): Promise<string> {
+  if (isServerMode) {
+    const response = await fetch(`/api/chimes?name=${encodeURIComponent(file.name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream', ...getAuthHeaders() },
+      body: file,
+    });
+    if (!response.ok) throw new Error(`Chime upload failed with ${response.status}`);
+    const { src } = await response.json();
+    return src;
+  }
+  const id = Math.random().toString(36).substr(2, 9);
+  await run('readwrite', store => store.put(file, id));
+  return `idb:${id}`;
+}
+
+export async function deleteChimeFile(src: string) {
+  try {
+    if (src.startsWith('idb:')) {
+      await run('readwrite', store => store.delete(src.slice(4)));
+    } else if (src.startsWith('/chimes/')) {
+      await fetch(`/api${src}`, { method: 'DELETE', headers: getAuthHeaders() });
+    }
+  } catch (error) {
+    console.error('Error deleting chime file:', error);
+  }
+}
+
+const playMelody = async (melody: [number, number][], volume: number, signal?: AbortSignal) => {
+  const ctx = await ensureAudioRunning();
+  const length = melody.reduce((total, [, duration]) => total + duration, 0);
+  await new Promise<void>((resolve, reject) => {
+    const oscillators: OscillatorNode[] = [];
+    let at = ctx.currentTime + 0.05;
+    const stopAll = () => oscillators.forEach(oscillator => oscillator.stop());
+    // A context suspended halfway through never fires onended
+    const timer = setTimeout(() => {
+      stopAll();
+      reject(new Error('Melody did not finish playing, audio may have been suspended'));
+    }, length * 1000 + PLAYBACK_MARGIN_MS);
+    const finish = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', () => {
+      stopAll();
+      finish();
+    }, { once: true });
+    melody.forEach(([frequency, duration], index) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, at);
+      gain.gain.exponentialRampToValueAtTime(Math.max(volume, 0.0001), at + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(at);
+      oscillator.stop(at + duration);
+      oscillators.push(oscillator);
+      if (index === melody.length - 1) oscillator.onended = finish;
+      at += duration;
+    });
+  });
+};
+
+const MAX_FILE_CHIME_MS = 30000;
+
+const playFile = async (src: string, volume: number, signal?: AbortSignal) => {
+  let url = src;
+  let objectUrl: string | null = null;
+  if (src.startsWith('idb:')) {
+    const blob = await run<Blob | undefined>('readonly', store => store.get(src.slice(4)));
+    if (!blob) throw new Error(`Chime ${src} is missing from this browser`);
+    url = objectUrl = URL.createObjectURL(blob);
+  }
+  const audio = new Audio(url);
+  audio.volume = volume;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      // A file that stalls while loading never ends; it is cut off after its own
+      // length, or after a fixed cap until that length is known
+      let timer: ReturnType<typeof setTimeout>;
+      const guard = (ms: number) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          console.warn(`Chime ${src} stalled, stopping it`);
+          audio.pause();
+          resolve();
+        }, ms);
+      };
+      guard(MAX_FILE_CHIME_MS);
+      audio.onloadedmetadata = () => {
+        if (Number.isFinite(audio.duration)) guard(audio.duration * 1000 + PLAYBACK_MARGIN_MS);
+      };
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        audio.pause();
+        resolve();
+      }, { once: true });
+      audio.onended = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      audio.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to load chime ${src}`));
+      };
+      audio.play().catch(error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  } finally {
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  }
+};
+
+// Resolves once every repetition has finished; a broken chime never blocks the
+// announcement, it only reports what went wrong. A file that can't be played
+// (e.g. uploaded into another browser's storage) is replaced by `fallback`.
+export async function playChime(chime: Chime, signal?: AbortSignal, fallback: Chime = BUILTIN_CHIMES[0]): Promise<string | null> {
+  for (let i = 0; i < Math.max(1, chime.repeat) && !signal?.aborted; i++) {
+    try {
+      if (chime.src.startsWith('builtin:')) {
+        const melody = MELODIES[chime.src.slice(8)] || MELODIES.dingdong;
+        await playMelody(melody, chime.volume, signal);
+      } else {
+        await playFile(chime.src, chime.volume, signal);
+      }
+    } catch (error) {
+      console.warn('Chime playback failed:', error);
+      const message = `chime ${chime.name}: ${error instanceof Error ? error.message : String(error)}`;
+      if (chime.src.startsWith('builtin:') || !fallback.src.startsWith('builtin:') || signal?.aborted) return message;
+      const fallbackError = await playChime(fallback, signal);
+      return fallbackError ? `${message}; ${fallbackError}` : `${message}, played ${fallback.name} instead`;
+    }
+  }
+  return null;
+}
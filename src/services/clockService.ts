@@ -0,0 +1,39 @@
+import { fetchServerTime } from './apiClient';
+
+export interface ClockOffset {
+  offsetMs: number;   // added to this device's clock to get the reference time
+  source: 'server' | 'host';
+  measuredAt: string; // ISO, on the corrected clock
+}
+
+const SAMPLES = 3;
+
+// Without the bell server, whatever served the page is the reference: its Date
+// header only has whole seconds, so the middle of that second is assumed.
+async function fetchHostTime(): Promise<number | null> {
+  const response = await fetch(window.location.origin + '/', { method: 'HEAD', cache: 'no-store' });
+  const header = response.headers.get('date');
+  const time = header ? Date.parse(header) : NaN;
+  return isNaN(time) ? null : time + 500;
+}
+
+// NTP-style: the reference time is taken to be read halfway through the round
+// trip, and the sample with the shortest round trip is the most trustworthy.
+export async function measureClockOffset(isServerMode: boolean): Promise<ClockOffset | null> {
+  const read = isServerMode ? fetchServerTime : fetchHostTime;
+  let best: { offset: number; roundTrip: number } | null = null;
+  for (let i = 0; i < SAMPLES; i++) {
+    const sentAt = Date.now();
+    const reference = await read();
+    const receivedAt = Date.now();
+    if (reference === null) return null;
+    const sample = { offset: reference + (receivedAt - sentAt) / 2 - receivedAt, roundTrip: receivedAt - sentAt };
+    if (!best || sample.roundTrip < best.roundTrip) best = sample;
+  }
+  if (!best) return null;
+  return {
+    offsetMs: Math.round(best.offset),
+    source: isServerMode ? 'server' : 'host',
+    measuredAt: new Date(Date.now() + best.offset).toISOString(),
+  };
+}
@@ -1,4 +1,5 @@
 import { GoogleGenAI, Modality } from "@google/genai";
+import type { AudioClip } from "./audioPlayer";
 
 const getAI = () => {
   const apiKey = process.env.GEMINI_API_KEY;
@@ -8,7 +9,8 @@ const getAI = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export async function generateAnnouncementAudio(text: string, voiceName: string = 'Kore'): Promise<string | undefined> {
+// Gemini answers with raw 24kHz 16-bit PCM; the mimeType says so and must travel with the data.
+export async function generateAnnouncementAudio(text: string, voiceName: string = 'Kore'): Promise<AudioClip | undefined> {
   try {
     const ai = getAI();
     const response = await ai.models.generateContent({
@@ -24,43 +26,11 @@ export async function generateAnnouncementAudio(text: string, voiceName: string
       },
     });
 
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+    if (!inlineData?.data) return undefined;
+    return { data: inlineData.data, mimeType: inlineData.mimeType || 'audio/L16;codec=pcm;rate=24000' };
   } catch (error) {
     console.error("Error generating TTS:", error);
     return undefined;
   }
 }
-
-export function playAudioFromBase64(base64Data: string) {
-  if (!base64Data) {
-    console.error("No audio data provided");
-    return Promise.reject("No audio data");
-  }
-
-  try {
-    // Use audio/mpeg for MP3 data which is common for TTS
-    const audioSrc = `data:audio/mpeg;base64,${base64Data}`;
-    const audio = new Audio();
-    
-    return new Promise((resolve, reject) => {
-      audio.src = audioSrc;
-      
-      audio.oncanplaythrough = () => {
-        audio.play()
-          .then(resolve)
-          .catch((err) => {
-            console.error("Playback failed:", err);
-            reject(err);
-          });
-      };
-
-      audio.onerror = (e) => {
-        console.error("Audio loading error:", e);
-        reject("Failed to load audio source");
-      };
-    });
-  } catch (error) {
-    console.error("Error in playAudioFromBase64:", error);
-    return Promise.reject(error);
-  }
-}
@@ -0,0 +1,52 @@
+import type { Cell } from 'exceljs';
+import { downloadBlob, downloadCsv, parseCsv } from '../utils/csv';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// ExcelJS is large and only needed here, so it is loaded on first use.
+const loadExcel = async () => (await import('exceljs')).default;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Excel dates carry no zone; ExcelJS reads them as UTC. A time-only cell is a
+// date on 1899-12-30, shown the way the sheet shows it ("07:00").
+const formatExcelDate = (date: Date) => {
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+  if (date.getUTCFullYear() < 1901) return time;
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return time === '00:00' ? day : `${day} ${time}`;
+};
+
+const cellText = (cell: Cell) => {
+  const value = cell.formula ? cell.result : cell.value;
+  return value instanceof Date ? formatExcelDate(value) : cell.text.trim();
+};
+
+// First sheet only, every cell as text (so times stay "07:00").
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.csv$/i.test(file.name)) return parseCsv(await file.text());
+  const ExcelJS = await loadExcel();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => { cells[column - 1] = cellText(cell); });
+    rows[rowNumber - 1] = Array.from(cells, text => text ?? '');
+  });
+  return Array.from(rows, row => row ?? []);
+}
+
+export async function downloadSpreadsheet(filename: string, rows: string[][], format: SpreadsheetFormat) {
+  if (format === 'csv') {
+    downloadCsv(`${filename}.csv`, rows);
+    return;
+  }
+  const ExcelJS = await loadExcel();
+  const workbook = new ExcelJS.Workbook();
+  workbook.addWorksheet('Jadwal').addRows(rows);
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(`${filename}.xlsx`, new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+}
@@ -0,0 +1,33 @@
+import { Station } from '../types';
+
+const STATION_KEY = 'school_bell_station';
+
+export type LocalStation = Omit<Station, 'connectedAt'>;
+
+// Identifies this browser to the other devices; created on first use and kept
+// across reloads so a designated primary station stays primary.
+export function loadStation(): LocalStation {
+  const saved = localStorage.getItem(STATION_KEY);
+  if (saved) return JSON.parse(saved);
+  const id = Math.random().toString(36).substr(2, 9);
+  const station: LocalStation = { id, name: `Perangkat ${id.slice(0, 4).toUpperCase()}`, canPlay: true };
+  saveStation(station);
+  return station;
+}
+
+export function saveStation(station: LocalStation) {
+  localStorage.setItem(STATION_KEY, JSON.stringify(station));
+}
+
+const STATION_KEY_KEY = 'school_bell_station_key';
+
+// Proves to the bell server that requests really come from this station: the
+// server binds the first key it sees to the station id. Kept apart from the
+// station itself, which is shared with every other device.
+export function loadStationKey(): string {
+  const saved = localStorage.getItem(STATION_KEY_KEY);
+  if (saved) return saved;
+  const key = Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+  localStorage.setItem(STATION_KEY_KEY, key);
+  return key;
+}
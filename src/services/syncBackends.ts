@@ -0,0 +1,134 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PlaybackStatus, ScheduleItem, Station } from '../types';
+import { SyncBackend, SyncRecord, SyncTable } from './syncEngine';
+import { supabase } from './supabaseClient';
+
+export interface StationChannel {
+  reportPlayback: (status: PlaybackStatus) => void;
+  leave: () => void;
+}
+
+export interface AppSyncBackend extends SyncBackend {
+  fetchLegacySchedule?: () => Promise<ScheduleItem[]>;
+  // Live changes made by other devices; `record` is null for a deletion
+  subscribe?: (onChange: (table: SyncTable, id: string, record: SyncRecord | null) => void) => () => void;
+  // Announces this station and reports who else is connected
+  joinStations?: (
+    station: Station,
+    onStations: (stations: Station[]) => void,
+    onPlayback: (status: PlaybackStatus) => void,
+  ) => StationChannel;
+}
+
+const SYNC_TABLES: SyncTable[] = ['profiles', 'settings', 'calendar'];
+
+// The profiles, settings and calendar tables need an `updatedAt` text column for
+// conflict detection; rows without one never win a conflict.
+export function createSupabaseBackend(client: SupabaseClient): AppSyncBackend {
+  return {
+    async fetchAll(table) {
+      const { data, error } = await client.from(table).select('*');
+      if (error) throw error;
+      return data || [];
+    },
+    async fetchOne(table, id) {
+      const { data, error } = await client.from(table).select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    async upsert(table, record) {
+      const { error } = await client.from(table).upsert(record);
+      if (error) throw error;
+    },
+    async remove(table, id) {
+      const { error } = await client.from(table).delete().eq('id', id);
+      if (error) throw error;
+    },
+    // The flat table from before profiles existed
+    async fetchLegacySchedule() {
+      const { data, error } = await client.from('schedules').select('*').order('startTime', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    // Needs the tables added to the supabase_realtime publication
+    subscribe(onChange) {
+      const channel = client.channel('bell-data');
+      SYNC_TABLES.forEach(table => channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+        if (payload.eventType === 'DELETE') onChange(table, String(payload.old.id), null);
+        else onChange(table, String(payload.new.id), payload.new as SyncRecord);
+      }));
+      channel.subscribe();
+      return () => { client.removeChannel(channel); };
+    },
+    joinStations(station, onStations, onPlayback) {
+      const channel = client.channel('bell-stations', { config: { presence: { key: station.id } } });
+      channel.on('presence', { event: 'sync' }, () => {
+        onStations(Object.values(channel.presenceState<Station>()).map(([entry]) => ({
+          id: entry.id, name: entry.name, canPlay: entry.canPlay, connectedAt: entry.connectedAt,
+        })));
+      });
+      channel.on('broadcast', { event: 'playback' }, ({ payload }) => onPlayback(payload as PlaybackStatus));
+      channel.subscribe((status) => {
+        if (status === 'SUBSCRIBED') channel.track(station);
+      });
+      return {
+        reportPlayback: (status) => { channel.send({ type: 'broadcast', event: 'playback', payload: status }); },
+        leave: () => { client.removeChannel(channel); },
+      };
+    },
+  };
+}
+
+const STAND_IN_PREFIX = 'school_bell_standin_';
+const STAND_IN_OFFLINE_KEY = 'school_bell_standin_offline';
+
+// Plays the remote store without Supabase: tables live under their own
+// localStorage keys and calls take a moment, like a network round trip. It
+// fails while the browser is offline or `school_bell_standin_offline` is "true",
+// and a row can be edited by hand to play another device winning a conflict.
+// Other tabs of the same browser stand in for other devices: they see changes
+// live through storage events. There is no presence, so every tab leads.
+export function createStandInBackend(latency = 300): AppSyncBackend {
+  const read = (table: SyncTable): Record<string, SyncRecord> =>
+    JSON.parse(localStorage.getItem(STAND_IN_PREFIX + table) || '{}');
+  const write = (table: SyncTable, rows: Record<string, SyncRecord>) =>
+    localStorage.setItem(STAND_IN_PREFIX + table, JSON.stringify(rows));
+
+  const call = async <T>(run: () => T): Promise<T> => {
+    await new Promise(resolve => setTimeout(resolve, latency));
+    if (!navigator.onLine || localStorage.getItem(STAND_IN_OFFLINE_KEY) === 'true') {
+      throw new Error('Stand-in backend offline');
+    }
+    return run();
+  };
+
+  return {
+    fetchAll: (table) => call(() => Object.values(read(table))),
+    fetchOne: (table, id) => call(() => read(table)[id] ?? null),
+    upsert: (table, record) => call(() => write(table, { ...read(table), [String(record.id)]: record })),
+    remove: (table, id) => call(() => {
+      const { [id]: _removed, ...rest } = read(table);
+      write(table, rest);
+    }),
+    subscribe(onChange) {
+      const handleStorage = (e: StorageEvent) => {
+        const table = SYNC_TABLES.find(t => e.key === STAND_IN_PREFIX + t);
+        if (!table) return;
+        const before: Record<string, SyncRecord> = JSON.parse(e.oldValue || '{}');
+        const after: Record<string, SyncRecord> = JSON.parse(e.newValue || '{}');
+        Object.keys(before).filter(id => !(id in after)).forEach(id => onChange(table, id, null));
+        Object.entries(after)
+          .filter(([id, record]) => before[id]?.updatedAt !== record.updatedAt)
+          .forEach(([id, record]) => onChange(table, id, record));
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+// VITE_SYNC_STAND_IN=true swaps Supabase for the stand-in, to try offline
+// behaviour and the outbox without a Supabase project.
+export const syncBackend: AppSyncBackend | null = import.meta.env.VITE_SYNC_STAND_IN === 'true'
+  ? createStandInBackend()
+  : supabase ? createSupabaseBackend(supabase) : null;
@@ -0,0 +1,182 @@
+export type SyncTable = 'profiles' | 'settings' | 'calendar';
+
+// A row as the remote store keeps it. `updatedAt` is stamped by the engine when
+// the change is made locally and decides conflicts (last writer wins).
+export interface SyncRecord {
+  id: string | number;
+  updatedAt?: string; // ISO
+}
+
+export interface SyncOperation {
+  id: string;
+  table: SyncTable;
+  action: 'upsert' | 'delete';
+  recordId: string;
+  record?: SyncRecord;   // upserts only
+  updatedAt: string;     // ISO, when the change was made on this device
+  attempts: number;
+  nextAttemptAt: string; // ISO
+  lastError?: string;
+}
+
+export interface SyncBackend {
+  fetchAll: (table: SyncTable) => Promise<SyncRecord[]>;
+  fetchOne: (table: SyncTable, id: string) => Promise<SyncRecord | null>;
+  upsert: (table: SyncTable, record: SyncRecord) => Promise<void>;
+  remove: (table: SyncTable, id: string) => Promise<void>;
+}
+
+export interface SyncSnapshot {
+  pending: SyncOperation[];
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  conflicts: number; // local changes dropped because the remote copy was newer
+}
+
+export interface SyncEngine {
+  enqueue: <T extends SyncRecord>(table: SyncTable, action: SyncOperation['action'], record: T) => void;
+  // Lays pending changes over freshly fetched rows, so a reload never shows older data than the user saw
+  overlay: <T extends SyncRecord>(table: SyncTable, records: T[]) => T[];
+  // A live change for such a record is older than the local one about to be sent
+  hasPending: (table: SyncTable, id: string) => boolean;
+  retryNow: () => void;
+  start: () => void; // begins sending whatever the outbox held from the last session
+  stop: () => void;
+}
+
+const OUTBOX_KEY = 'school_bell_outbox';
+const BASE_DELAY = 2000;
+const MAX_DELAY = 5 * 60 * 1000;
+
+// 2s, 4s, 8s ... capped at five minutes, with some jitter so devices coming back
+// online together don't retry in lockstep.
+export const getRetryDelay = (attempts: number) =>
+  Math.min(MAX_DELAY, BASE_DELAY * 2 ** (attempts - 1) * (0.8 + Math.random() * 0.4));
+
+const loadOutbox = (): SyncOperation[] => JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+
+// Every change is written to a durable outbox before the remote call, and only
+// leaves it once the remote store has accepted it. One operation is kept per
+// record: a newer change replaces an unsent older one. Records are independent,
+// so one that keeps failing (e.g. refused by a policy) does not hold up the rest.
+// `onConflict` receives the remote row that won, to replace the local copy.
+export function createSyncEngine(
+  backend: SyncBackend,
+  onChange: (snapshot: SyncSnapshot) => void,
+  onConflict: (table: SyncTable, remote: SyncRecord) => void,
+): SyncEngine {
+  let outbox = loadOutbox();
+  let isSyncing = false;
+  let lastSyncedAt: string | null = null;
+  let lastError: string | null = null;
+  let conflicts = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = () => onChange({ pending: [...outbox], isSyncing, lastSyncedAt, lastError, conflicts });
+  const persist = () => localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+
+  const scheduleNext = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (outbox.length === 0) return;
+    const next = Math.min(...outbox.map(op => new Date(op.nextAttemptAt).getTime()));
+    timer = setTimeout(flush, Math.max(0, next - Date.now()));
+  };
+
+  // Checked right before writing; another device may still slip in between the
+  // read and the write, in which case the later timestamp wins on the next pass.
+  const send = async (op: SyncOperation) => {
+    const remote = await backend.fetchOne(op.table, op.recordId);
+    if (remote?.updatedAt && remote.updatedAt > op.updatedAt) {
+      conflicts++;
+      console.warn(`Sync conflict on ${op.table}/${op.recordId}: remote change from ${remote.updatedAt} kept`);
+      onConflict(op.table, remote);
+      return;
+    }
+    if (op.action === 'upsert' && op.record) await backend.upsert(op.table, op.record);
+    else if (op.action === 'delete' && remote) await backend.remove(op.table, op.recordId);
+  };
+
+  const flush = async () => {
+    if (isSyncing) return;
+    const now = new Date().toISOString();
+    const due = outbox.filter(op => op.nextAttemptAt <= now);
+    if (due.length === 0) {
+      scheduleNext();
+      return;
+    }
+
+    isSyncing = true;
+    emit();
+    for (const op of due) {
+      try {
+        await send(op);
+        // Compared by id: an edit made while this one was in flight stays queued
+        outbox = outbox.filter(other => other.id !== op.id);
+        lastSyncedAt = new Date().toISOString();
+        lastError = null;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error syncing ${op.table}/${op.recordId}:`, error);
+        outbox = outbox.map(other => other.id === op.id
+          ? { ...other, attempts: other.attempts + 1, lastError: message, nextAttemptAt: new Date(Date.now() + getRetryDelay(other.attempts + 1)).toISOString() }
+          : other);
+        lastError = message;
+      }
+      persist();
+      emit();
+    }
+    isSyncing = false;
+    emit();
+    scheduleNext();
+  };
+
+  const retryNow = () => {
+    const now = new Date().toISOString();
+    outbox = outbox.map(op => ({ ...op, nextAttemptAt: now }));
+    persist();
+    flush();
+  };
+
+  return {
+    enqueue(table, action, record) {
+      const recordId = String(record.id);
+      const now = new Date().toISOString();
+      const op: SyncOperation = {
+        id: Math.random().toString(36).substr(2, 9),
+        table,
+        action,
+        recordId,
+        record: action === 'upsert' ? { ...record, updatedAt: now } : undefined,
+        updatedAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+      };
+      const index = outbox.findIndex(other => other.table === table && other.recordId === recordId);
+      outbox = index === -1 ? [...outbox, op] : outbox.map((other, i) => i === index ? op : other);
+      persist();
+      emit();
+      flush();
+    },
+    overlay(table, records) {
+      return outbox
+        .filter(op => op.table === table)
+        .reduce((rows, op) => {
+          const rest = rows.filter(row => String(row.id) !== op.recordId);
+          return op.action === 'upsert' && op.record ? [...rest, op.record as typeof rows[number]] : rest;
+        }, records);
+    },
+    hasPending: (table, id) => outbox.some(op => op.table === table && op.recordId === id),
+    retryNow,
+    start() {
+      window.addEventListener('online', retryNow);
+      emit();
+      flush();
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('online', retryNow);
+    },
+  };
+}
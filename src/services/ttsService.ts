@@ -0,0 +1,196 @@
+import { AppSettings, TtsProviderId, TtsVoice } from '../types';
+import { generateAnnouncementAudio } from './geminiService';
+import { AudioSynthesizer, ensureCachedAudio } from './audioCache';
+import { AudioClip, PLAYBACK_MARGIN_MS, decodeAudio, playBuffer } from './audioPlayer';
+import * as api from './apiClient';
+import { applyPronunciations } from '../utils/pronunciation';
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  isAvailable: () => Promise<boolean>;
+  getVoices: () => Promise<TtsVoice[]>;
+  // Providers that return audio data go through the audio cache and can be
+  // pre-generated; the others can only speak live.
+  synthesize?: (text: string, voice: string) => Promise<AudioClip | undefined>;
+  speak?: (text: string, voice: string, gain: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const GEMINI_VOICES: TtsVoice[] = [
+  { id: 'Kore', name: 'Kore (Standard)' },
+  { id: 'Puck', name: 'Puck (Deep)' },
+  { id: 'Charon', name: 'Charon (Calm)' },
+  { id: 'Fenrir', name: 'Fenrir (Bold)' },
+  { id: 'Zephyr', name: 'Zephyr (Light)' },
+];
+
+const gemini: TtsProvider = {
+  id: 'gemini',
+  label: 'Gemini (online)',
+  isAvailable: async () => !!process.env.GEMINI_API_KEY && navigator.onLine,
+  getVoices: async () => GEMINI_VOICES,
+  synthesize: (text, voice) => generateAnnouncementAudio(text, voice || 'Kore'),
+};
+
+let localInfo: Promise<api.LocalTtsInfo | null> | null = null;
+
+// Asked once per page load; the engine only changes when the server restarts.
+const getLocalInfo = () => {
+  if (!localInfo) localInfo = api.fetchLocalTtsInfo().catch(() => null);
+  return localInfo;
+};
+
+const local: TtsProvider = {
+  id: 'local',
+  label: 'Mesin Lokal (server)',
+  isAvailable: async () => !!(await getLocalInfo())?.engine,
+  getVoices: async () => (await getLocalInfo())?.voices || [],
+  synthesize: (text, voice) => api.synthesizeLocalSpeech(text, voice),
+};
+
+// Chrome fills the voice list asynchronously after page load.
+const loadBrowserVoices = () => new Promise<SpeechSynthesisVoice[]>((resolve) => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) {
+    resolve(voices);
+    return;
+  }
+  const timeout = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 2000);
+  window.speechSynthesis.addEventListener('voiceschanged', () => {
+    clearTimeout(timeout);
+    resolve(window.speechSynthesis.getVoices());
+  }, { once: true });
+});
+
+// Generous for Indonesian at the default rate (roughly 15 characters a second)
+const SPEECH_MS_PER_CHAR = 120;
+
+const browser: TtsProvider = {
+  id: 'browser',
+  label: 'Browser (offline)',
+  isAvailable: async () => 'speechSynthesis' in window,
+  getVoices: async () => {
+    const voices = await loadBrowserVoices();
+    const indonesian = voices.filter(v => v.lang.toLowerCase().startsWith('id'));
+    return (indonesian.length > 0 ? indonesian : voices).map(v => ({ id: v.voiceURI, name: `${v.name} (${v.lang})` }));
+  },
+  speak: async (text, voice, gain, signal) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'id-ID';
+    utterance.volume = Math.min(gain, 1);
+    const match = (await loadBrowserVoices()).find(v => v.voiceURI === voice);
+    if (match) utterance.voice = match;
+    await new Promise<void>((resolve, reject) => {
+      const stop = () => window.speechSynthesis.cancel();
+      // Chrome sometimes never fires onend or onerror; give up well after the text should have been read
+      const timer = setTimeout(() => {
+        console.warn('Speech synthesis stalled, cancelling it');
+        stop();
+        resolve();
+      }, text.length * SPEECH_MS_PER_CHAR + PLAYBACK_MARGIN_MS);
+      signal?.addEventListener('abort', stop, { once: true });
+      utterance.onend = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      utterance.onerror = (e) => {
+        clearTimeout(timer);
+        if (signal?.aborted) resolve();
+        else reject(new Error(`Speech synthesis failed: ${e.error}`));
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+  },
+};
+
+export const TTS_PROVIDERS: Record<TtsProviderId, TtsProvider> = { gemini, local, browser };
+
+export const getSynthesizer = (settings: AppSettings, id: TtsProviderId): AudioSynthesizer | null => {
+  const provider = TTS_PROVIDERS[id];
+  if (!provider.synthesize) return null;
+  const voice = settings.ttsVoices[id];
+  return { voice: `${id}:${voice}`, synthesize: text => provider.synthesize!(text, voice) };
+};
+
+// The first available provider in the chain that produces audio data is the
+// one whose output gets pre-generated into the cache.
+export async function getPrimarySynthesizer(settings: AppSettings): Promise<AudioSynthesizer | null> {
+  for (const id of settings.ttsChain) {
+    const synth = getSynthesizer(settings, id);
+    if (synth && await TTS_PROVIDERS[id].isAvailable()) return synth;
+  }
+  return null;
+}
+
+// Written text stays readable in the UI and the log; engines get the dictionary's spoken forms.
+export const toSpokenText = (text: string, settings: AppSettings) => applyPronunciations(text, settings.pronunciations);
+
+export interface PreparedAnnouncement {
+  provider: TtsProviderId;
+  buffer: AudioBuffer;
+}
+
+// Fetches and decodes the first provider's audio ahead of time (e.g. while the
+// chime plays) so the announcement starts the moment it is needed. Returns null
+// when the first available provider speaks live or its audio isn't obtainable.
+export async function prepareAnnouncement(text: string, settings: AppSettings): Promise<PreparedAnnouncement | null> {
+  for (const id of settings.ttsChain) {
+    try {
+      if (!(await TTS_PROVIDERS[id].isAvailable())) continue;
+      const synth = getSynthesizer(settings, id);
+      const clip = synth && await ensureCachedAudio(toSpokenText(text, settings), synth);
+      return clip ? { provider: id, buffer: await decodeAudio(clip) } : null;
+    } catch (error) {
+      console.warn(`Could not prepare "${id}" announcement audio:`, error);
+      return null;
+    }
+  }
+  return null;
+}
+
+export interface SpeakResult {
+  provider: TtsProviderId | null; // null when every provider in the chain failed
+  attempted: TtsProviderId[];
+  errors: string[];
+}
+
+// Tries each provider in the configured order until one actually speaks.
+// Resolves once the announcement has finished playing or `signal` aborts it.
+export async function speakAnnouncement(
+  text: string,
+  settings: AppSettings,
+  prepared?: PreparedAnnouncement | null,
+  signal?: AbortSignal,
+): Promise<SpeakResult> {
+  const attempted: TtsProviderId[] = [];
+  const errors: string[] = [];
+  const spoken = toSpokenText(text, settings);
+  for (const id of settings.ttsChain) {
+    if (signal?.aborted) break;
+    const provider = TTS_PROVIDERS[id];
+    attempted.push(id);
+    try {
+      if (prepared?.provider === id) {
+        await playBuffer(prepared.buffer, settings.announcementGain, signal);
+        return { provider: id, attempted, errors };
+      }
+      if (!(await provider.isAvailable())) {
+        errors.push(`${id}: unavailable`);
+        continue;
+      }
+      const synth = getSynthesizer(settings, id);
+      if (synth) {
+        const clip = await ensureCachedAudio(spoken, synth);
+        if (!clip) throw new Error('No audio data');
+        await playBuffer(await decodeAudio(clip), settings.announcementGain, signal);
+      } else {
+        await provider.speak!(spoken, settings.ttsVoices[id], settings.announcementGain, signal);
+      }
+      return { provider: id, attempted, errors };
+    } catch (error) {
+      console.warn(`TTS provider "${id}" failed, trying the next one:`, error);
+      errors.push(`${id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { provider: null, attempted, errors };
+}
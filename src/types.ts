@@ -1,5 +1,14 @@
+export type WeekRotation = 'A' | 'B';
+
+export type BellType = 'lesson' | 'break' | 'prayer' | 'assembly' | 'dismissal';
+
+// Lesson fields (period, teacher, gender, subject, className) are only
+// required for the types that list them in BELL_TYPES; others leave them empty.
 export interface ScheduleItem {
   id: string;
+  type: BellType;
+  label?: string;            // e.g. "Istirahat Pertama", "Sholat Dzuhur"
+  ringAtEnd?: boolean;       // lessons only: also ring the end-of-period bell at endTime
   period: number;
   startTime: string; // HH:mm format
   endTime: string;   // HH:mm format
@@ -8,10 +17,220 @@ export interface ScheduleItem {
   subject: string;
   className: string;
   isActive: boolean;
+  days: number[];            // 0 = Minggu ... 6 = Sabtu (date-fns getDay)
+  rotation?: WeekRotation;   // undefined = every week
+  chimeId?: string;          // undefined = the bell type's chime
+  // Master data references; teacher, gender, subject and className are kept
+  // in step with them as a readable copy for exports and older clients.
+  teacherId?: string;
+  subjectId?: string;
+  classId?: string;
+}
+
+export interface Teacher {
+  id: string;
+  name: string;
+  gender: 'Bapak' | 'Ibu';
+  pronunciation?: string; // spoken instead of `name`, e.g. "Siti Aminah" -> "Siti Aminnah"
+}
+
+export interface Subject {
+  id: string;
+  name: string;
+}
+
+export interface PronunciationEntry {
+  id: string;
+  term: string;           // as written, e.g. "XI-B" or "PJOK"
+  spoken: string;         // what the TTS engine is given instead
+  caseSensitive: boolean; // abbreviations usually are, names usually aren't
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string;
+}
+
+// A line of the running text. Empty bounds mean no limit; times are HH:mm on every shown day.
+export interface MarqueeMessage {
+  id: string;
+  text: string;
+  isActive: boolean;
+  startDate: string | null; // yyyy-MM-dd
+  endDate: string | null;   // yyyy-MM-dd, inclusive
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface Chime {
+  id: string;
+  name: string;
+  src: string;    // 'builtin:<melody>', '/chimes/<file>' on the server, or 'idb:<id>' in this browser
+  repeat: number;
+  volume: number; // 0..1
 }
 
 export interface AppSettings {
   schoolName: string;
   isAutoEnabled: boolean;
-  voiceName: 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Zephyr';
+  ttsChain: TtsProviderId[];                  // tried in order until one succeeds
+  ttsVoices: Record<TtsProviderId, string>;   // voice id per provider
+  announcementGain: number;                   // 1 = as synthesized, up to 2 for a boost
+  maxAnnouncementLength: number;              // characters per clip before a group announcement is split
+  savedBroadcasts: Broadcast[];
+  teachers: Teacher[];
+  subjects: Subject[];
+  classes: SchoolClass[];
+  pronunciations: PronunciationEntry[];
+  isRotationEnabled: boolean;
+  rotationAnchorDate: string; // yyyy-MM-dd, any day inside a week A
+  activeProfileId: string;
+  templates: AnnouncementTemplates;
+  groupTemplates: GroupTemplates;
+  chimes: Chime[];
+  typeChimes: Partial<Record<BellType, string>>; // chime id per bell type
+  missedBellPolicy: MissedBellPolicy;
+  lateRingWindow: number; // minutes a bell may still ring late
+  primaryStationId: string | null; // the device that plays bells whenever it is connected
+  marqueeMessages: MarqueeMessage[];
+  timezone: SchoolTimezone; // bells ring by the school's clock, whatever zone a device is set to
+}
+
+// WIB, WITA and WIT; Indonesia has no daylight saving time.
+export type SchoolTimezone = 'Asia/Jakarta' | 'Asia/Makassar' | 'Asia/Jayapura';
+
+// ring-late: a bell missed for any reason rings late while within the window.
+// queue:     a bell waiting behind other announcements plays however late it
+//            gets; bells missed otherwise (sleeping tab, reload) are only logged.
+// log:       never ring late, only record the miss.
+export type MissedBellPolicy = 'ring-late' | 'queue' | 'log';
+
+export type BroadcastUrgency = 'normal' | 'emergency';
+
+// An announcement that isn't tied to a schedule item, e.g. a drill or a call to the office.
+export interface Broadcast {
+  id: string;
+  title: string;
+  text: string;
+  urgency: BroadcastUrgency; // emergency preempts any bell in progress
+  chimeId: string;
+  repeat: number;            // chime + message played this many times
+}
+
+export interface BroadcastEvent {
+  broadcast: Broadcast;
+  firedAt: string; // ISO
+  logId: string;
+}
+
+export type TtsProviderId = 'gemini' | 'local' | 'browser';
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+}
+
+export type AnnouncementKind = 'start' | 'end' | 'break' | 'prayer' | 'assembly' | 'dismissal';
+
+export type AnnouncementTemplates = Record<AnnouncementKind, string>;
+
+// Wording for several lessons sharing a minute; the per-kind templates are
+// written for a single class and would repeat the greeting for each one.
+export interface GroupTemplate {
+  intro: string;
+  item: string;      // once per class, joined into one sentence
+  continued: string; // opens every clip after the first
+  outro: string;
+}
+
+export type GroupTemplates = Record<'start' | 'end', GroupTemplate>;
+
+export interface ScheduleProfile {
+  id: string;
+  name: string;
+  items: ScheduleItem[];
+  activateOn?: string; // yyyy-MM-dd, switch to this profile automatically on that date
+}
+
+export type CalendarEntryType = 'holiday' | 'special';
+
+export interface CalendarEntry {
+  id: string;
+  type: CalendarEntryType;
+  startDate: string; // yyyy-MM-dd
+  endDate: string;   // yyyy-MM-dd, inclusive
+  reason: string;
+  scheduleDay?: number; // special days only: ring the timetable of this weekday instead
+  profileId?: string;   // special days only: ring this profile instead of the active one
+}
+
+// One announcement: every lesson sharing the minute, or a single whole-school bell.
+export interface RingEvent {
+  items: ScheduleItem[];
+  kind: AnnouncementKind;
+  time: string;     // HH:mm
+  firedAt: string;  // ISO timestamp from the server clock
+  logIds: string[]; // the server's log entries per item, which clients complete with the outcome
+}
+
+export type BellTrigger = 'auto' | 'manual';
+
+export interface BellLogEntry {
+  id: string;
+  scheduledAt: string | null;       // ISO; null for manual rings
+  firedAt: string;                  // ISO
+  itemId: string;                   // schedule item, or the broadcast message id
+  itemLabel: string;                // describeItem() at the time, so later edits don't rewrite history
+  type: BellType | 'broadcast';
+  kind: AnnouncementKind | BroadcastUrgency;
+  trigger: BellTrigger;
+  provider: TtsProviderId | null;   // engine that spoke; null if none did
+  fallbackPath: TtsProviderId[];    // engines tried, in order
+  errors: string[];
+  missed?: boolean;                 // detected after the fact and not rung
+  stationId?: string | null;        // bell server only: the station that plays it and reports the outcome
+  text?: string;                    // what a broadcast actually said
+}
+
+// admin: everything; operator: manual bells, broadcasts and the auto switch; viewer: read-only display
+export type UserRole = 'admin' | 'operator' | 'viewer';
+
+export interface AppUser {
+  id: string;
+  username: string; // an email address with Supabase Auth
+  role: UserRole;
+}
+
+// A browser connected to the bell server or the realtime channel. Only the
+// elected leader plays audio; the others mirror what it is doing.
+export interface Station {
+  id: string;
+  name: string;
+  canPlay: boolean;    // false for screens that only display, e.g. a hallway kiosk
+  connectedAt: string; // ISO
+}
+
+export interface StationsEvent {
+  stations: Station[];
+  leaderId: string | null;
+}
+
+// What the leader is playing, as labels, so other screens can show it.
+export interface PlaybackStatus {
+  stationId: string;
+  current: string | null;
+  pending: string[];
+}
+
+// Pushed to every other device after a write, so edits show up without a reload.
+export type DataChange =
+  | { type: 'profile'; profile: ScheduleProfile }
+  | { type: 'profileDeleted'; id: string }
+  | { type: 'settings'; settings: AppSettings }
+  | { type: 'calendar'; entry: CalendarEntry }
+  | { type: 'calendarDeleted'; id: string };
+
+export interface ChangeEvent {
+  origin: string | null; // station that made the change, which already shows it
+  change: DataChange;
 }
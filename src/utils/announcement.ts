@@ -0,0 +1,137 @@
+import { ScheduleItem, AppSettings, AnnouncementKind, AnnouncementTemplates, GroupTemplate, GroupTemplates } from '../types';
+import { BellGroup } from './bells';
+import { getSpokenTeacher, resolveItem } from './masterData';
+
+export const TEMPLATE_PLACEHOLDERS = ['period', 'startTime', 'endTime', 'gender', 'teacher', 'subject', 'className', 'label', 'schoolName'] as const;
+
+export const ANNOUNCEMENT_KIND_LABELS: Record<AnnouncementKind, string> = {
+  start: 'Awal Pelajaran',
+  end: 'Akhir Pelajaran',
+  break: 'Istirahat',
+  prayer: 'Sholat',
+  assembly: 'Upacara / Apel',
+  dismissal: 'Pulang',
+};
+
+export const DEFAULT_TEMPLATES: AnnouncementTemplates = {
+  start: 'Assalamualaikum warahmatullohi wabarokatuh, kepada siswa {schoolName}. Perhatian. Jam ke {period}. Pukul {startTime}. {gender} Guru {teacher}, pengampu mata pelajaran {subject}, dipersilakan masuk kelas {className}. Selamat belajar.',
+  end: 'Perhatian. Jam ke {period} telah berakhir pukul {endTime}. Terima kasih {gender} Guru {teacher}.',
+  break: 'Perhatian kepada seluruh siswa {schoolName}. Saat ini pukul {startTime}, waktunya {label}. Istirahat berakhir pukul {endTime}.',
+  prayer: 'Perhatian kepada seluruh siswa {schoolName}. Waktu {label} telah tiba. Silakan bersiap dan menuju masjid untuk sholat berjamaah.',
+  assembly: 'Perhatian kepada seluruh siswa {schoolName}. Pukul {startTime}, {label} akan segera dimulai. Silakan berkumpul di lapangan dengan tertib.',
+  dismissal: 'Perhatian kepada seluruh siswa {schoolName}. Kegiatan belajar hari ini telah selesai. Silakan pulang dengan tertib dan hati-hati di jalan. Wassalamualaikum warahmatullohi wabarokatuh.',
+};
+
+// Sample row for previewing templates in the settings panel.
+export const SAMPLE_ITEM: ScheduleItem = {
+  id: 'sample',
+  type: 'lesson',
+  label: 'Istirahat Pertama',
+  period: 1,
+  startTime: '07:00',
+  endTime: '07:45',
+  teacher: 'Budi Santoso',
+  gender: 'Bapak',
+  subject: 'Matematika',
+  className: 'VII-A',
+  isActive: true,
+  days: [1],
+};
+
+// A second class sharing the sample's minute, for previewing group templates.
+export const SAMPLE_GROUP_ITEMS: ScheduleItem[] = [
+  SAMPLE_ITEM,
+  { ...SAMPLE_ITEM, id: 'sample-2', teacher: 'Siti Aminah', gender: 'Ibu', subject: 'Bahasa Indonesia', className: 'VII-B' },
+];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export function findUnknownPlaceholders(template: string): string[] {
+  const known: readonly string[] = TEMPLATE_PLACEHOLDERS;
+  const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map(match => match[1])
+    .filter(name => !known.includes(name));
+  return [...new Set(unknown)];
+}
+
+export function renderTemplate(template: string, scheduled: ScheduleItem, settings: AppSettings): string {
+  const item = resolveItem(scheduled, settings);
+  const values: Record<string, string> = {
+    period: String(item.period),
+    startTime: item.startTime,
+    endTime: item.endTime,
+    gender: item.gender,
+    teacher: getSpokenTeacher(item, settings),
+    subject: item.subject,
+    className: item.className,
+    label: item.label || '',
+    schoolName: settings.schoolName,
+  };
+  // Unknown placeholders are left as-is so a typo is audible rather than silent
+  return template.replace(PLACEHOLDER_PATTERN, (match, name) => values[name] ?? match);
+}
+
+export function buildAnnouncementText(item: ScheduleItem, settings: AppSettings, kind: AnnouncementKind = 'start'): string {
+  return renderTemplate(settings.templates[kind], item, settings);
+}
+
+export const DEFAULT_GROUP_TEMPLATES: GroupTemplates = {
+  start: {
+    intro: 'Assalamualaikum warahmatullohi wabarokatuh, kepada siswa {schoolName}. Perhatian. Pukul {startTime}, jam ke {period} dimulai.',
+    item: '{gender} Guru {teacher}, mata pelajaran {subject}, di kelas {className}',
+    continued: 'Lanjutan jam ke {period}.',
+    outro: 'Selamat belajar.',
+  },
+  end: {
+    intro: 'Perhatian. Jam ke {period} telah berakhir pukul {endTime}. Terima kasih kepada',
+    item: '{gender} Guru {teacher} di kelas {className}',
+    continued: 'Terima kasih juga kepada',
+    outro: '',
+  },
+};
+
+export const GROUP_TEMPLATE_PARTS: Record<keyof GroupTemplate, string> = {
+  intro: 'Pembuka',
+  item: 'Per Kelas',
+  continued: 'Lanjutan',
+  outro: 'Penutup',
+};
+
+export const isGroupKind = (kind: AnnouncementKind): kind is keyof GroupTemplates => kind === 'start' || kind === 'end';
+
+// "A; B; dan C"
+const joinNaturally = (parts: string[]) => parts.length <= 1
+  ? parts.join('')
+  : `${parts.slice(0, -1).join('; ')}; dan ${parts[parts.length - 1]}`;
+
+// Returns one text per clip. A group larger than `maxAnnouncementLength` is split
+// between classes, never mid-sentence, so each clip stays short enough to
+// synthesize quickly and can be cached on its own.
+export function buildGroupAnnouncement(group: BellGroup, settings: AppSettings): string[] {
+  if (group.items.length === 1 || !isGroupKind(group.kind)) {
+    return group.items.map(item => buildAnnouncementText(item, settings, group.kind));
+  }
+  const phrases = settings.groupTemplates[group.kind];
+
+  const [first] = group.items;
+  const intro = renderTemplate(phrases.intro, first, settings);
+  const continued = renderTemplate(phrases.continued, first, settings);
+  const outro = renderTemplate(phrases.outro, first, settings);
+  const parts = group.items.map(item => renderTemplate(phrases.item, item, settings));
+
+  const compose = (opening: string, chunk: string[], isLast: boolean) =>
+    [opening, `${joinNaturally(chunk)}.`, isLast ? outro : ''].filter(Boolean).join(' ');
+
+  const chunks: string[][] = [[]];
+  parts.forEach(part => {
+    const chunk = chunks[chunks.length - 1];
+    const opening = chunks.length === 1 ? intro : continued;
+    if (chunk.length > 0 && compose(opening, [...chunk, part], true).length > settings.maxAnnouncementLength) {
+      chunks.push([part]);
+    } else {
+      chunk.push(part);
+    }
+  });
+
+  return chunks.map((chunk, i) => compose(i === 0 ? intro : continued, chunk, i === chunks.length - 1));
+}
@@ -0,0 +1,121 @@
+import { format, parse } from 'date-fns';
+import { BellLogEntry, BellTrigger, Broadcast, ScheduleItem, AnnouncementKind, SchoolTimezone } from '../types';
+import { BELL_TYPES, describeItem } from './bells';
+import { ANNOUNCEMENT_KIND_LABELS } from './announcement';
+import { fromSchoolTime, toSchoolTime } from './clock';
+
+// localStorage has no query support, so the fallback keeps only the newest entries.
+export const LOCAL_LOG_LIMIT = 2000;
+
+export type BellLogStatus = 'ok' | 'fallback' | 'failed' | 'missed';
+
+export interface BellLogFilter {
+  from: string; // yyyy-MM-dd, inclusive
+  to: string;   // yyyy-MM-dd, inclusive
+  type?: BellLogEntry['type'];
+  trigger?: BellTrigger;
+  status?: BellLogStatus;
+  search?: string;
+}
+
+export function createLogEntry(
+  item: ScheduleItem,
+  kind: AnnouncementKind,
+  trigger: BellTrigger,
+  firedAt: Date,
+  timeZone: SchoolTimezone, // the item's time is on the school's clock
+  id = Math.random().toString(36).substr(2, 9),
+): BellLogEntry {
+  const time = kind === 'end' ? item.endTime : item.startTime;
+  return {
+    id,
+    scheduledAt: trigger === 'auto' ? fromSchoolTime(parse(time, 'HH:mm', toSchoolTime(firedAt, timeZone)), timeZone).toISOString() : null,
+    firedAt: firedAt.toISOString(),
+    itemId: item.id,
+    itemLabel: describeItem(item),
+    type: item.type,
+    kind,
+    trigger,
+    provider: null,
+    fallbackPath: [],
+    errors: [],
+  };
+}
+
+export function createMissedEntry(item: ScheduleItem, kind: AnnouncementKind, detectedAt: Date, timeZone: SchoolTimezone, reason: string): BellLogEntry {
+  return { ...createLogEntry(item, kind, 'auto', detectedAt, timeZone), missed: true, errors: [reason] };
+}
+
+export function createBroadcastEntry(broadcast: Broadcast, firedAt: Date, id = Math.random().toString(36).substr(2, 9)): BellLogEntry {
+  return {
+    id,
+    scheduledAt: null,
+    firedAt: firedAt.toISOString(),
+    itemId: broadcast.id,
+    itemLabel: broadcast.title,
+    type: 'broadcast',
+    kind: broadcast.urgency,
+    trigger: 'manual',
+    provider: null,
+    fallbackPath: [],
+    errors: [],
+    text: broadcast.text,
+  };
+}
+
+export const getLogTypeLabel = (entry: BellLogEntry) =>
+  entry.type === 'broadcast' ? 'Siaran' : BELL_TYPES[entry.type].label;
+
+export const getLogKindLabel = (entry: BellLogEntry) =>
+  entry.type === 'broadcast'
+    ? (entry.kind === 'emergency' ? 'Darurat' : 'Biasa')
+    : ANNOUNCEMENT_KIND_LABELS[entry.kind as AnnouncementKind];
+
+// "fallback" means the bell was heard, but not from the first engine tried.
+export function getLogStatus(entry: BellLogEntry): BellLogStatus {
+  if (entry.missed) return 'missed';
+  if (!entry.provider) return 'failed';
+  return entry.fallbackPath.length > 1 || entry.errors.length > 0 ? 'fallback' : 'ok';
+}
+
+// Timestamps are stored as instants and read on the school's clock
+export const formatLogTime = (iso: string, pattern: string, timeZone: SchoolTimezone) =>
+  format(toSchoolTime(new Date(iso), timeZone), pattern);
+
+export function filterLog(entries: BellLogEntry[], filter: BellLogFilter, timeZone: SchoolTimezone): BellLogEntry[] {
+  const search = filter.search?.trim().toLowerCase();
+  return entries
+    .filter(entry => {
+      const day = formatLogTime(entry.firedAt, 'yyyy-MM-dd', timeZone);
+      if (day < filter.from || day > filter.to) return false;
+      if (filter.type && entry.type !== filter.type) return false;
+      if (filter.trigger && entry.trigger !== filter.trigger) return false;
+      if (filter.status && getLogStatus(entry) !== filter.status) return false;
+      return !search || `${entry.itemLabel} ${entry.text || ''}`.toLowerCase().includes(search);
+    })
+    .sort((a, b) => b.firedAt.localeCompare(a.firedAt));
+}
+
+// Newest first, replacing any earlier version of the same entry.
+export function mergeLogEntry(entries: BellLogEntry[], entry: BellLogEntry): BellLogEntry[] {
+  return [entry, ...entries.filter(e => e.id !== entry.id)].slice(0, LOCAL_LOG_LIMIT);
+}
+
+export function logToCsvRows(entries: BellLogEntry[], timeZone: SchoolTimezone): string[][] {
+  const formatTimestamp = (iso: string | null) => iso ? formatLogTime(iso, 'yyyy-MM-dd HH:mm:ss', timeZone) : '';
+  return [
+    ['Dijadwalkan', 'Berbunyi', 'Jenis Bel', 'Pengumuman', 'Keterangan', 'Pemicu', 'Mesin Suara', 'Urutan Fallback', 'Status', 'Error'],
+    ...entries.map(entry => [
+      formatTimestamp(entry.scheduledAt),
+      formatTimestamp(entry.firedAt),
+      getLogTypeLabel(entry),
+      getLogKindLabel(entry),
+      entry.text ? `${entry.itemLabel}: ${entry.text}` : entry.itemLabel,
+      entry.trigger === 'auto' ? 'Otomatis' : 'Manual',
+      entry.provider || '',
+      entry.fallbackPath.join(' > '),
+      getLogStatus(entry),
+      entry.errors.join(' | '),
+    ]),
+  ];
+}
@@ -0,0 +1,133 @@
+import { ScheduleItem, BellType, AnnouncementKind } from '../types';
+
+export type LessonField = 'period' | 'className' | 'subject' | 'teacher' | 'gender';
+
+export interface BellTypeConfig {
+  label: string;
+  fields: LessonField[];     // lesson fields this type requires
+  hasLabel: boolean;         // uses the free-text `label` instead
+  kind: AnnouncementKind;    // template used when the bell rings at startTime
+  canRingAtEnd: boolean;
+  chime: string;             // default chime id, overridable in settings and per item
+  color: string;             // tailwind classes for the type badge
+}
+
+export const BELL_TYPES: Record<BellType, BellTypeConfig> = {
+  lesson: {
+    label: 'Pelajaran',
+    fields: ['period', 'className', 'subject', 'teacher', 'gender'],
+    hasLabel: false,
+    kind: 'start',
+    canRingAtEnd: true,
+    chime: 'builtin-dingdong',
+    color: 'bg-indigo-100 text-indigo-600',
+  },
+  break: {
+    label: 'Istirahat',
+    fields: [],
+    hasLabel: true,
+    kind: 'break',
+    canRingAtEnd: false,
+    chime: 'builtin-westminster',
+    color: 'bg-amber-100 text-amber-700',
+  },
+  prayer: {
+    label: 'Sholat',
+    fields: [],
+    hasLabel: true,
+    kind: 'prayer',
+    canRingAtEnd: false,
+    chime: 'builtin-westminster',
+    color: 'bg-emerald-100 text-emerald-700',
+  },
+  assembly: {
+    label: 'Upacara / Apel',
+    fields: [],
+    hasLabel: true,
+    kind: 'assembly',
+    canRingAtEnd: false,
+    chime: 'builtin-dingdong',
+    color: 'bg-blue-100 text-blue-600',
+  },
+  dismissal: {
+    label: 'Pulang',
+    fields: [],
+    hasLabel: true,
+    kind: 'dismissal',
+    canRingAtEnd: false,
+    chime: 'builtin-westminster',
+    color: 'bg-rose-100 text-rose-600',
+  },
+};
+
+export interface BellEvent {
+  item: ScheduleItem;
+  kind: AnnouncementKind;
+  time: string; // HH:mm
+}
+
+export function getItemEvents(item: ScheduleItem): BellEvent[] {
+  const config = BELL_TYPES[item.type];
+  const events: BellEvent[] = [{ item, kind: config.kind, time: item.startTime }];
+  if (config.canRingAtEnd && item.ringAtEnd && item.endTime) {
+    events.push({ item, kind: 'end', time: item.endTime });
+  }
+  return events;
+}
+
+export function getBellEvents(items: ScheduleItem[]): BellEvent[] {
+  return items
+    .flatMap(getItemEvents)
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+// Everything rung together in one announcement: all lessons starting (or
+// ending) in the same minute, or a single whole-school bell.
+export interface BellGroup {
+  kind: AnnouncementKind;
+  time: string; // HH:mm
+  items: ScheduleItem[];
+}
+
+export function groupBellEvents(events: BellEvent[]): BellGroup[] {
+  const groups: BellGroup[] = [];
+  events.forEach(event => {
+    const group = event.item.type === 'lesson'
+      ? groups.find(g => g.kind === event.kind && g.time === event.time && g.items[0].type === 'lesson')
+      : undefined;
+    if (group) group.items.push(event.item);
+    else groups.push({ kind: event.kind, time: event.time, items: [event.item] });
+  });
+  groups.forEach(group => group.items.sort((a, b) => a.className.localeCompare(b.className)));
+  return groups;
+}
+
+// Every distinct group the timetable can produce on any weekday and rotation
+// week, for pre-generating audio before the day it's needed.
+export function getPossibleGroups(items: ScheduleItem[]): BellGroup[] {
+  const seen = new Set<string>();
+  const groups: BellGroup[] = [];
+  [0, 1, 2, 3, 4, 5, 6].forEach(day => {
+    (['A', 'B'] as const).forEach(week => {
+      const dayItems = items.filter(item => item.isActive && item.days.includes(day) && (!item.rotation || item.rotation === week));
+      groupBellEvents(getBellEvents(dayItems)).forEach(group => {
+        const key = `${group.kind}|${group.time}|${group.items.map(item => item.id).join(',')}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        groups.push(group);
+      });
+    });
+  });
+  return groups;
+}
+
+export function describeGroup(group: BellGroup): string {
+  const prefix = group.kind === 'end' ? 'Selesai ' : '';
+  if (group.items.length === 1) return `${prefix}${describeItem(group.items[0])}`;
+  return `${prefix}${group.time} - ${group.items.length} kelas`;
+}
+
+export function describeItem(item: ScheduleItem): string {
+  if (BELL_TYPES[item.type].hasLabel) return item.label || BELL_TYPES[item.type].label;
+  return `Jam Ke ${item.period} - Kelas ${item.className}`;
+}
@@ -0,0 +1,46 @@
+import { format, getDay } from 'date-fns';
+import { ScheduleItem, ScheduleProfile, AppSettings, CalendarEntry } from '../types';
+import { isScheduledOn } from './schedule';
+import { getActiveProfile } from './profiles';
+
+export interface DayPlan {
+  holiday: CalendarEntry | null;
+  special: CalendarEntry | null;
+  weekday: number; // weekday whose timetable applies today
+  profileId: string | null; // profile swapped in by a special day
+}
+
+export function getEntriesOn(date: Date, calendar: CalendarEntry[]): CalendarEntry[] {
+  const day = format(date, 'yyyy-MM-dd');
+  return calendar.filter(entry => entry.startDate <= day && day <= entry.endDate);
+}
+
+// Holidays always win over special days when ranges overlap.
+export function getDayPlan(date: Date, calendar: CalendarEntry[]): DayPlan {
+  const entries = getEntriesOn(date, calendar);
+  const holiday = entries.find(e => e.type === 'holiday') || null;
+  const special = holiday ? null : entries.find(e => e.type === 'special') || null;
+  return {
+    holiday,
+    special,
+    weekday: special?.scheduleDay ?? getDay(date),
+    profileId: special?.profileId ?? null,
+  };
+}
+
+export function getScheduleForDate(
+  profiles: ScheduleProfile[],
+  date: Date,
+  settings: AppSettings,
+  calendar: CalendarEntry[],
+): ScheduleItem[] {
+  const plan = getDayPlan(date, calendar);
+  if (plan.holiday) return [];
+  const profile = profiles.find(p => p.id === plan.profileId) || getActiveProfile(profiles, settings, date);
+  if (!profile) return [];
+  return profile.items.filter(item => item.isActive && isScheduledOn(item, date, settings, plan.weekday));
+}
+
+export function sortCalendar(calendar: CalendarEntry[]): CalendarEntry[] {
+  return [...calendar].sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
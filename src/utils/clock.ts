@@ -0,0 +1,58 @@
+import { SchoolTimezone } from '../types';
+
+export const TIMEZONE_LABELS: Record<SchoolTimezone, string> = {
+  'Asia/Jakarta': 'WIB',
+  'Asia/Makassar': 'WITA',
+  'Asia/Jayapura': 'WIT',
+};
+
+export const SCHOOL_TIMEZONES = Object.keys(TIMEZONE_LABELS) as SchoolTimezone[];
+
+// A device clock further off than this from the reference clock is worth a warning
+export const DRIFT_WARNING_MS = 30 * 1000;
+
+const formatters = new Map<SchoolTimezone, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: SchoolTimezone) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// The school's wall-clock time at `instant`, as a Date whose local fields read it:
+// format(), getDay() and the timetable comparisons then work in the school's zone
+// whatever the device is set to. For comparing and showing only; never store it,
+// because as an instant it is off by the device's difference to the school zone.
+export function toSchoolTime(instant: Date, timeZone: SchoolTimezone): Date {
+  const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(instant).map(part => [part.type, part.value]));
+  return new Date(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second, instant.getMilliseconds());
+}
+
+// The instant at which the school's clock reads `wallClock`; the inverse of toSchoolTime.
+export function fromSchoolTime(wallClock: Date, timeZone: SchoolTimezone): Date {
+  const difference = toSchoolTime(wallClock, timeZone).getTime() - wallClock.getTime();
+  return new Date(wallClock.getTime() - difference);
+}
+
+// Minutes the device's own zone is behind (negative: ahead of) the school's
+export const getZoneDifference = (instant: Date, timeZone: SchoolTimezone) =>
+  Math.round((toSchoolTime(instant, timeZone).getTime() - instant.getTime()) / 60000);
+
+// "3 menit 12 detik"
+export function formatDrift(ms: number): string {
+  const seconds = Math.round(Math.abs(ms) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} menit ${seconds % 60} detik` : `${seconds} detik`;
+}
@@ -0,0 +1,17 @@
+import { format } from 'date-fns';
+import { MarqueeMessage } from '../types';
+
+export function isMessageShown(message: MarqueeMessage, now: Date): boolean {
+  if (!message.isActive || !message.text.trim()) return false;
+  const date = format(now, 'yyyy-MM-dd');
+  const time = format(now, 'HH:mm');
+  if (message.startDate && date < message.startDate) return false;
+  if (message.endDate && date > message.endDate) return false;
+  if (message.startTime && time < message.startTime) return false;
+  if (message.endTime && time >= message.endTime) return false;
+  return true;
+}
+
+// Joined into one running line, in the order they were added
+export const getMarqueeText = (messages: MarqueeMessage[], now: Date): string =>
+  messages.filter(message => isMessageShown(message, now)).map(message => message.text.trim()).join(' — ');
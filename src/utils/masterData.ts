@@ -0,0 +1,90 @@
+import { AppSettings, ScheduleItem, ScheduleProfile, SchoolClass, Subject, Teacher } from '../types';
+
+export type MasterKind = 'teachers' | 'subjects' | 'classes';
+export type MasterData = Pick<AppSettings, MasterKind>;
+
+export const MASTER_KINDS: MasterKind[] = ['teachers', 'subjects', 'classes'];
+
+interface Named {
+  id: string;
+  name: string;
+}
+
+const ITEM_ID_FIELD = { teachers: 'teacherId', subjects: 'subjectId', classes: 'classId' } as const;
+
+// "Siti Aminah " and "siti  aminah" are the same person.
+export const cleanName = (name: string) => name.trim().replace(/\s+/g, ' ');
+const normalizeName = (name: string) => cleanName(name).toLowerCase();
+
+export const findById = <T extends Named>(entries: T[], id: string | undefined): T | undefined =>
+  id ? entries.find(entry => entry.id === id) : undefined;
+
+export const findByName = <T extends Named>(entries: T[], name: string): T | undefined =>
+  entries.find(entry => normalizeName(entry.name) === normalizeName(name));
+
+// Master data wins over the copy stored on the item, so a rename applies everywhere at once.
+export function resolveItem(item: ScheduleItem, master: MasterData): ScheduleItem {
+  if (item.type !== 'lesson') return item;
+  const teacher = findById(master.teachers, item.teacherId);
+  return {
+    ...item,
+    teacher: teacher?.name ?? item.teacher,
+    gender: teacher?.gender ?? item.gender,
+    subject: findById(master.subjects, item.subjectId)?.name ?? item.subject,
+    className: findById(master.classes, item.classId)?.name ?? item.className,
+  };
+}
+
+export const getSpokenTeacher = (item: ScheduleItem, master: MasterData) =>
+  findById(master.teachers, item.teacherId)?.pronunciation || item.teacher;
+
+const LINKED_FIELDS = ['teacherId', 'subjectId', 'classId', 'teacher', 'gender', 'subject', 'className'] as const;
+
+// Gives every lesson the ids of its teacher, subject and class, creating entries
+// for names not seen before (schedules saved before master data existed, a fresh
+// import), and refreshes the readable copies. Unchanged profiles keep their identity.
+export function linkMasterData(profiles: ScheduleProfile[], master: MasterData): { profiles: ScheduleProfile[]; master: MasterData } {
+  const teachers = [...master.teachers];
+  const subjects = [...master.subjects];
+  const classes = [...master.classes];
+
+  const ensure = <T extends Named>(list: T[], id: string | undefined, name: string, create: (name: string) => T): T | undefined => {
+    const existing = findById(list, id) || (name.trim() ? findByName(list, name) : undefined);
+    if (existing || !name.trim()) return existing;
+    const entry = create(cleanName(name));
+    list.push(entry);
+    return entry;
+  };
+  const newId = () => Math.random().toString(36).substr(2, 9);
+
+  const linked = profiles.map(profile => {
+    let changed = false;
+    const items = profile.items.map(item => {
+      if (item.type !== 'lesson') return item;
+      const teacher = ensure<Teacher>(teachers, item.teacherId, item.teacher, name => ({ id: newId(), name, gender: item.gender }));
+      const subject = ensure<Subject>(subjects, item.subjectId, item.subject, name => ({ id: newId(), name }));
+      const schoolClass = ensure<SchoolClass>(classes, item.classId, item.className, name => ({ id: newId(), name }));
+      const next: ScheduleItem = {
+        ...item,
+        teacherId: teacher?.id,
+        subjectId: subject?.id,
+        classId: schoolClass?.id,
+        teacher: teacher?.name ?? item.teacher,
+        gender: teacher?.gender ?? item.gender,
+        subject: subject?.name ?? item.subject,
+        className: schoolClass?.name ?? item.className,
+      };
+      if (LINKED_FIELDS.every(field => next[field] === item[field])) return item;
+      changed = true;
+      return next;
+    });
+    return changed ? { ...profile, items } : profile;
+  });
+
+  return { profiles: linked, master: { teachers, subjects, classes } };
+}
+
+export function countUsage(profiles: ScheduleProfile[], kind: MasterKind, id: string): number {
+  const field = ITEM_ID_FIELD[kind];
+  return profiles.reduce((sum, profile) => sum + profile.items.filter(item => item[field] === id).length, 0);
+}
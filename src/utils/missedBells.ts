@@ -0,0 +1,75 @@
+import { differenceInMinutes, format, parse } from 'date-fns';
+import { AppSettings } from '../types';
+import { BellEvent } from './bells';
+
+// Which bells have already been handled (rung or logged as missed) today.
+// Bells due before `since` are ignored: the bell system simply wasn't running yet.
+export interface FiredState {
+  date: string;   // yyyy-MM-dd
+  since: string;  // HH:mm of the first check that day
+  fired: string[];
+}
+
+export interface BellCheck {
+  ring: BellEvent[];    // due now, or late but still allowed to ring
+  missed: BellEvent[];  // too late to ring under the current policy
+  state: FiredState;
+}
+
+export const getEventKey = (event: BellEvent) => `${event.item.id}:${event.kind}`;
+
+export function getLateness(time: string, now: Date): number {
+  return differenceInMinutes(now, parse(time, 'HH:mm', now));
+}
+
+export function canRingLate(time: string, now: Date, settings: AppSettings): boolean {
+  return settings.missedBellPolicy === 'ring-late' && getLateness(time, now) <= settings.lateRingWindow;
+}
+
+// Whether a bell still waiting in the announcement queue should be given up on.
+export function isTooLate(time: string, now: Date, settings: AppSettings): boolean {
+  const lateness = getLateness(time, now);
+  if (settings.missedBellPolicy === 'ring-late') return lateness > settings.lateRingWindow;
+  if (settings.missedBellPolicy === 'log') return lateness > 0;
+  return false;
+}
+
+// Compares today's bells against what has already fired rather than matching
+// the current minute exactly, so a throttled tick or a reload can't lose a bell.
+export function checkDueBells(events: BellEvent[], state: FiredState | null, now: Date, settings: AppSettings): BellCheck {
+  const date = format(now, 'yyyy-MM-dd');
+  const time = format(now, 'HH:mm');
+  const current = state?.date === date ? state : { date, since: time, fired: [] };
+  const ring: BellEvent[] = [];
+  const missed: BellEvent[] = [];
+
+  events
+    .filter(event => event.time >= current.since && event.time <= time && !current.fired.includes(getEventKey(event)))
+    .forEach(event => {
+      if (event.time === time || canRingLate(event.time, now, settings)) ring.push(event);
+      else missed.push(event);
+    });
+
+  return {
+    ring,
+    missed,
+    state: ring.length + missed.length > 0 || current !== state
+      ? { ...current, fired: [...current.fired, ...[...ring, ...missed].map(getEventKey)] }
+      : current,
+  };
+}
+
+// While the bell server rings, bells up to `now` count as handled there, so falling
+// back to local ringing later that day starts from the moment it takes over.
+export function skipDueBells(state: FiredState | null, now: Date): FiredState {
+  const date = format(now, 'yyyy-MM-dd');
+  const time = format(now, 'HH:mm');
+  if (state?.date === date && state.since === time) return state;
+  return { date, since: time, fired: state?.date === date ? state.fired : [] };
+}
+
+// Bells rung by someone else (the bell server) this minute must not ring again here.
+export function markFired(state: FiredState, events: BellEvent[]): FiredState {
+  const keys = events.map(getEventKey).filter(key => !state.fired.includes(key));
+  return keys.length > 0 ? { ...state, fired: [...state.fired, ...keys] } : state;
+}
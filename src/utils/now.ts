@@ -0,0 +1,88 @@
+import { differenceInSeconds, format, parse } from 'date-fns';
+import { ScheduleItem, SchoolClass } from '../types';
+import { cleanName } from './masterData';
+
+// What one class is doing at a given moment. Breaks, prayers and assemblies
+// concern the whole school, so they count as every class's current item.
+export interface ClassNow {
+  classId?: string;
+  className: string;
+  current: ScheduleItem | null;
+  remainingMinutes: number | null; // until `current` ends, rounded up
+  next: ScheduleItem | null;       // the next item starting later that day
+}
+
+export interface SchoolNow {
+  time: string; // HH:mm
+  schoolWide: ScheduleItem | null; // a break, prayer or assembly in progress
+  classes: ClassNow[];
+}
+
+// Where a teacher is now and where they have to be next; lessons only.
+export interface TeacherNow {
+  current: ScheduleItem | null;
+  remainingMinutes: number | null;
+  next: ScheduleItem | null;
+  minutesUntilNext: number | null;
+}
+
+export const isRunningAt = (item: ScheduleItem, time: string) => item.startTime <= time && time < item.endTime;
+
+const minutesUntil = (time: string, now: Date) => Math.ceil(differenceInSeconds(parse(time, 'HH:mm', now), now) / 60);
+
+const byStart = (a: ScheduleItem, b: ScheduleItem) => a.startTime.localeCompare(b.startTime);
+
+const sameName = (a: string, b: string) => cleanName(a).toLowerCase() === cleanName(b).toLowerCase();
+
+const isForClass = (item: ScheduleItem, schoolClass: Pick<SchoolClass, 'name'> & { id?: string }) =>
+  item.classId && schoolClass.id ? item.classId === schoolClass.id : sameName(item.className, schoolClass.name);
+
+// `items` is one day's timetable, as getScheduleForDate returns it. Classes from
+// master data are listed even without lessons that day; classes only named on a
+// lesson are added after them.
+export function getSchoolNow(items: ScheduleItem[], now: Date, classes: SchoolClass[] = []): SchoolNow {
+  const time = format(now, 'HH:mm');
+  const sorted = [...items].sort(byStart);
+  const lessons = sorted.filter(item => item.type === 'lesson' && item.className.trim());
+  const shared = sorted.filter(item => item.type !== 'lesson');
+  const schoolWide = shared.find(item => isRunningAt(item, time)) || null;
+
+  const known: (Pick<SchoolClass, 'name'> & { id?: string })[] = [...classes];
+  lessons.forEach(item => {
+    if (!known.some(schoolClass => isForClass(item, schoolClass))) known.push({ id: item.classId, name: cleanName(item.className) });
+  });
+
+  return {
+    time,
+    schoolWide,
+    classes: known
+      .map(schoolClass => {
+        const own = lessons.filter(item => isForClass(item, schoolClass));
+        const current = own.find(item => isRunningAt(item, time)) || schoolWide;
+        return {
+          classId: schoolClass.id,
+          className: schoolClass.name,
+          current,
+          remainingMinutes: current ? minutesUntil(current.endTime, now) : null,
+          next: [...own, ...shared].sort(byStart).find(item => item.startTime > time) || null,
+        };
+      })
+      .sort((a, b) => a.className.localeCompare(b.className)),
+  };
+}
+
+// Matched by master data id when the teacher has one, by name otherwise.
+export function getTeacherNow(items: ScheduleItem[], teacher: { id?: string; name: string }, now: Date): TeacherNow {
+  const time = format(now, 'HH:mm');
+  const own = items
+    .filter(item => item.type === 'lesson' && (teacher.id && item.teacherId ? item.teacherId === teacher.id : sameName(item.teacher, teacher.name)))
+    .sort(byStart);
+  const current = own.find(item => isRunningAt(item, time)) || null;
+  const next = own.find(item => item.startTime > time) || null;
+  return {
+    current,
+    remainingMinutes: current ? minutesUntil(current.endTime, now) : null,
+    next,
+    minutesUntilNext: next ? minutesUntil(next.startTime, now) : null,
+  };
+}
@@ -0,0 +1,44 @@
+import { format } from 'date-fns';
+import { ScheduleItem, ScheduleProfile, AppSettings } from '../types';
+import { normalizeScheduleItem } from './schedule';
+
+export const DEFAULT_PROFILE_ID = 'regular';
+
+export function sortItems(items: ScheduleItem[]): ScheduleItem[] {
+  return [...items].sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+export function normalizeProfile(profile: ScheduleProfile): ScheduleProfile {
+  return {
+    ...profile,
+    items: sortItems((profile.items || []).map(normalizeScheduleItem)),
+    activateOn: profile.activateOn || undefined,
+  };
+}
+
+// Schedules saved before profiles existed were a single flat list.
+export function profileFromLegacySchedule(items: ScheduleItem[]): ScheduleProfile {
+  return normalizeProfile({ id: DEFAULT_PROFILE_ID, name: 'Reguler', items });
+}
+
+// With `date`, a scheduled switch that is due wins even before anyone has saved it
+// as the active profile, so every station rings the same timetable.
+export function getActiveProfile(profiles: ScheduleProfile[], settings: AppSettings, date?: Date): ScheduleProfile | undefined {
+  return (date && getDueProfile(profiles, date)) || profiles.find(p => p.id === settings.activeProfileId) || profiles[0];
+}
+
+export function duplicateProfile(profile: ScheduleProfile, name: string): ScheduleProfile {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    items: profile.items.map(item => ({ ...item, id: Math.random().toString(36).substr(2, 9) })),
+  };
+}
+
+// The most recently due scheduled switch wins; earlier ones are considered superseded.
+export function getDueProfile(profiles: ScheduleProfile[], date: Date): ScheduleProfile | undefined {
+  const today = format(date, 'yyyy-MM-dd');
+  return profiles
+    .filter(p => p.activateOn && p.activateOn <= today)
+    .sort((a, b) => b.activateOn!.localeCompare(a.activateOn!))[0];
+}
@@ -0,0 +1,41 @@
+import { PronunciationEntry } from '../types';
+
+const entry = (term: string, spoken: string, caseSensitive = true): PronunciationEntry =>
+  ({ id: term.toLowerCase(), term, spoken, caseSensitive });
+
+// Roman numerals cover class names such as "XI-B"; the rest are common subject abbreviations.
+export const DEFAULT_PRONUNCIATIONS: PronunciationEntry[] = [
+  entry('VII', 'tujuh'),
+  entry('VIII', 'delapan'),
+  entry('IX', 'sembilan'),
+  entry('X', 'sepuluh'),
+  entry('XI', 'sebelas'),
+  entry('XII', 'dua belas'),
+  entry('PJOK', 'pe je o ka'),
+  entry('IPA', 'i pe a'),
+  entry('IPS', 'i pe es'),
+  entry('PAI', 'pe a i'),
+  entry('PKn', 'pe ka en'),
+  entry('TIK', 'te i ka'),
+  entry('BK', 'be ka'),
+  entry('SMP', 'es em pe'),
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole terms only: "IPA" must not match inside "IPAS", but "XI" does match in "XI-B".
+// All terms go into one pattern, longest first, so a replacement is never replaced again.
+export function applyPronunciations(text: string, entries: PronunciationEntry[]): string {
+  const usable = entries.filter(e => e.term.trim() && e.spoken.trim());
+  if (usable.length === 0) return text;
+
+  const sorted = [...usable].sort((a, b) => b.term.length - a.term.length);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${sorted.map(e => escapeRegExp(e.term.trim())).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  );
+  return text.replace(pattern, match => {
+    const found = sorted.find(e => e.caseSensitive ? e.term.trim() === match : e.term.trim().toLowerCase() === match.toLowerCase());
+    return found ? found.spoken.trim() : match;
+  });
+}
@@ -0,0 +1,40 @@
+import { AppUser, UserRole } from '../types';
+
+export type Permission = 'edit' | 'ring' | 'broadcast' | 'toggleAuto' | 'manageUsers';
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const USER_ROLES: UserRole[] = ['admin', 'operator', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  operator: 'Operator',
+  viewer: 'Penonton',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['edit', 'ring', 'broadcast', 'toggleAuto', 'manageUsers'],
+  operator: ['ring', 'broadcast', 'toggleAuto'],
+  viewer: [],
+};
+
+// Nobody signed in is a viewer, so an open display can still follow the bells.
+export const hasPermission = (role: UserRole | undefined, permission: Permission) =>
+  ROLE_PERMISSIONS[role || 'viewer'].includes(permission);
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  USER_ROLES.includes(value as UserRole);
+
+// Refuses changes that would leave nobody able to manage users. `next` is null for a deletion.
+export function checkUserChange(users: AppUser[], id: string, next: AppUser | null): string | null {
+  const current = users.find(user => user.id === id);
+  if (next && !next.username.trim()) return 'Nama pengguna wajib diisi';
+  if (next && users.some(user => user.id !== id && user.username.toLowerCase() === next.username.trim().toLowerCase())) {
+    return `Nama pengguna "${next.username.trim()}" sudah dipakai`;
+  }
+  const remainingAdmins = users.filter(user => user.role === 'admin' && user.id !== id).length;
+  if (current?.role === 'admin' && next?.role !== 'admin' && remainingAdmins === 0) {
+    return 'Harus ada setidaknya satu admin';
+  }
+  return null;
+}
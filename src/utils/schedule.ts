@@ -0,0 +1,39 @@
+import { differenceInCalendarWeeks, getDay, parse } from 'date-fns';
+import { ScheduleItem, AppSettings, WeekRotation } from '../types';
+
+export const DAY_LABELS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+export const SCHOOL_DAYS = [1, 2, 3, 4, 5, 6];
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// Rows saved before weekday support have no `days`; they used to ring every day.
+export function normalizeScheduleItem(item: ScheduleItem): ScheduleItem {
+  return {
+    ...item,
+    type: item.type || 'lesson',
+    days: Array.isArray(item.days) && item.days.length > 0 ? item.days : ALL_DAYS,
+    rotation: item.rotation || undefined,
+  };
+}
+
+export function getWeekRotation(date: Date, settings: AppSettings): WeekRotation | null {
+  if (!settings.isRotationEnabled || !settings.rotationAnchorDate) return null;
+  const anchor = parse(settings.rotationAnchorDate, 'yyyy-MM-dd', new Date());
+  if (isNaN(anchor.getTime())) return null;
+  const weeks = differenceInCalendarWeeks(date, anchor, { weekStartsOn: 1 });
+  return Math.abs(weeks) % 2 === 0 ? 'A' : 'B';
+}
+
+export function isScheduledOn(item: ScheduleItem, date: Date, settings: AppSettings, weekday: number = getDay(date)): boolean {
+  if (!item.days.includes(weekday)) return false;
+  if (!item.rotation) return true;
+  const week = getWeekRotation(date, settings);
+  return week === null || week === item.rotation;
+}
+
+export function formatDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Setiap hari';
+  if (sorted.join() === '1,2,3,4,5') return 'Senin - Jumat';
+  if (sorted.join() === SCHOOL_DAYS.join()) return 'Senin - Sabtu';
+  return sorted.map(d => DAY_LABELS[d].slice(0, 3)).join(', ');
+}
@@ -0,0 +1,17 @@
+import { Station } from '../types';
+
+// The designated primary station plays whenever it is connected. Otherwise the
+// station that has been connected longest takes over, so bells keep ringing
+// when the office PC is off. Every device computes the same answer from the same list.
+export function electLeader(stations: Station[], primaryStationId: string | null): string | null {
+  const candidates = stations.filter(station => station.canPlay);
+  if (primaryStationId && candidates.some(station => station.id === primaryStationId)) return primaryStationId;
+  const [oldest] = [...candidates].sort((a, b) => a.connectedAt.localeCompare(b.connectedAt) || a.id.localeCompare(b.id));
+  return oldest?.id ?? null;
+}
+
+// Two tabs of one browser share a station id; the earlier connection counts.
+export function uniqueStations(stations: Station[]): Station[] {
+  const sorted = [...stations].sort((a, b) => a.connectedAt.localeCompare(b.connectedAt));
+  return sorted.filter((station, i) => sorted.findIndex(other => other.id === station.id) === i);
+}
@@ -0,0 +1,268 @@
+import { BellType, ScheduleItem, WeekRotation } from '../types';
+import { WEEKDAYS } from '../defaults';
+import { BELL_TYPES } from './bells';
+import { ALL_DAYS, DAY_LABELS } from './schedule';
+import { sortItems } from './profiles';
+import { getItemProblems, validateItem, validateSchedule } from './validation';
+
+export type TimetableField =
+  | 'type' | 'label' | 'period' | 'startTime' | 'endTime' | 'className'
+  | 'subject' | 'teacher' | 'gender' | 'days' | 'rotation' | 'ringAtEnd' | 'isActive';
+
+// `header` is what export writes; `aliases` are other headers recognised on import.
+export const TIMETABLE_COLUMNS: Record<TimetableField, { header: string; aliases: string[] }> = {
+  type: { header: 'Jenis', aliases: ['jenis bel', 'tipe', 'type'] },
+  label: { header: 'Keterangan', aliases: ['label', 'nama'] },
+  period: { header: 'Jam Ke', aliases: ['jam', 'period', 'jp'] },
+  startTime: { header: 'Mulai', aliases: ['jam mulai', 'waktu mulai', 'start'] },
+  endTime: { header: 'Selesai', aliases: ['jam selesai', 'waktu selesai', 'end'] },
+  className: { header: 'Kelas', aliases: ['class', 'rombel'] },
+  subject: { header: 'Mata Pelajaran', aliases: ['mapel', 'pelajaran', 'subject'] },
+  teacher: { header: 'Guru', aliases: ['guru pengampu', 'nama guru', 'teacher'] },
+  gender: { header: 'Sapaan', aliases: ['gender', 'panggilan', 'jenis kelamin'] },
+  days: { header: 'Hari', aliases: ['days'] },
+  rotation: { header: 'Minggu', aliases: ['rotasi', 'pekan', 'week'] },
+  ringAtEnd: { header: 'Bel Selesai', aliases: ['ring at end'] },
+  isActive: { header: 'Aktif', aliases: ['active', 'status'] },
+};
+
+export const TIMETABLE_FIELDS = Object.keys(TIMETABLE_COLUMNS) as TimetableField[];
+
+// Column index per field; unmapped fields take their defaults.
+export type ColumnMapping = Partial<Record<TimetableField, number>>;
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  TIMETABLE_FIELDS.forEach(field => {
+    const { header, aliases } = TIMETABLE_COLUMNS[field];
+    const index = normalized.findIndex(h => h === normalizeHeader(header) || aliases.includes(h));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// Accepts 7:00, 07.00, 0700, 7:00:00, 7:00 PM and Excel's fraction-of-a-day numbers.
+export function parseTime(value: string): string | null {
+  const text = value.trim();
+  if (/^0?\.\d+$/.test(text)) {
+    const minutes = Math.round(parseFloat(text) * 24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+  const match = text.match(/^(\d{1,2})[:.]?(\d{2})(?:[:.]\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[3].toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+const findDay = (value: string): number => {
+  const text = value.trim().toLowerCase();
+  if (/^[0-6]$/.test(text)) return parseInt(text);
+  // "Jum'at" and three-letter abbreviations are common in school spreadsheets
+  const plain = text.replace(/'/g, '');
+  return DAY_LABELS.findIndex(label => label.toLowerCase() === plain || (plain.length >= 3 && label.toLowerCase().startsWith(plain)));
+};
+
+// "Senin - Jumat", "Senin, Rabu, Jumat", "1,3,5" or "Setiap hari"
+export function parseDays(value: string): number[] | null {
+  const text = value.trim().toLowerCase();
+  if (text === 'setiap hari') return ALL_DAYS;
+  const days = new Set<number>();
+  for (const part of text.split(/[,;/]+/).map(p => p.trim()).filter(Boolean)) {
+    const range = part.split(/\s*(?:-|–|s\.?d\.?|sampai)\s*/).filter(Boolean);
+    if (range.length === 2) {
+      const [from, to] = range.map(findDay);
+      if (from === -1 || to === -1 || to < from) return null;
+      for (let day = from; day <= to; day++) days.add(day);
+    } else {
+      const day = findDay(part);
+      if (day === -1) return null;
+      days.add(day);
+    }
+  }
+  return days.size > 0 ? [...days].sort((a, b) => a - b) : null;
+}
+
+export function parseGender(value: string): ScheduleItem['gender'] | null {
+  const text = value.trim().toLowerCase().replace(/\.$/, '');
+  if (['bapak', 'pak', 'bpk', 'l', 'laki-laki', 'pria'].includes(text)) return 'Bapak';
+  if (['ibu', 'bu', 'p', 'perempuan', 'wanita'].includes(text)) return 'Ibu';
+  return null;
+}
+
+const parseType = (value: string): BellType | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return 'lesson';
+  const types = Object.keys(BELL_TYPES) as BellType[];
+  return types.find(type => type === text || BELL_TYPES[type].label.toLowerCase().startsWith(text)) || null;
+};
+
+const parseFlag = (value: string, fallback: boolean): boolean | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return fallback;
+  if (['ya', 'y', 'yes', '1', 'true', 'x', 'aktif'].includes(text)) return true;
+  if (['tidak', 't', 'no', 'n', '0', 'false', '-', 'nonaktif'].includes(text)) return false;
+  return null;
+};
+
+export interface ImportRow {
+  line: number;               // 1-based row number in the sheet
+  item: ScheduleItem | null;  // null when the row has errors
+  errors: string[];
+}
+
+export function parseTimetable(cells: string[][], mapping: ColumnMapping, hasHeader: boolean): ImportRow[] {
+  const offset = hasHeader ? 1 : 0;
+  return cells.slice(offset)
+    .map((row, i) => ({ row, line: i + offset + 1 }))
+    .filter(({ row }) => row.some(cell => String(cell).trim()))
+    .map(({ row, line }) => {
+      const get = (field: TimetableField) => mapping[field] === undefined ? '' : String(row[mapping[field]!] ?? '').trim();
+      const errors: string[] = [];
+
+      const type = parseType(get('type'));
+      if (!type) errors.push(`Jenis bel "${get('type')}" tidak dikenal`);
+      const config = BELL_TYPES[type || 'lesson'];
+      const has = (field: 'period' | 'className' | 'subject' | 'teacher' | 'gender') => config.fields.includes(field);
+
+      const startTime = parseTime(get('startTime'));
+      if (!startTime) errors.push(get('startTime') ? `Jam mulai "${get('startTime')}" tidak valid` : 'Jam mulai kosong');
+      const endTime = get('endTime') ? parseTime(get('endTime')) : (has('period') ? null : startTime);
+      if (!endTime) errors.push(get('endTime') ? `Jam selesai "${get('endTime')}" tidak valid` : 'Jam selesai kosong');
+
+      const period = has('period') ? parseInt(get('period')) : 0;
+      if (has('period') && !(period > 0)) errors.push(`Jam ke "${get('period')}" tidak valid`);
+
+      const gender = has('gender') ? parseGender(get('gender')) : 'Bapak';
+      if (!gender) errors.push(get('gender') ? `Sapaan "${get('gender')}" tidak dikenal (Bapak/Ibu)` : 'Sapaan kosong');
+
+      (['className', 'subject', 'teacher'] as const).forEach(field => {
+        if (has(field) && !get(field)) errors.push(`${TIMETABLE_COLUMNS[field].header} kosong`);
+      });
+
+      const days = get('days') ? parseDays(get('days')) : WEEKDAYS;
+      if (!days) errors.push(`Hari "${get('days')}" tidak dikenal`);
+
+      const rotationText = get('rotation').toUpperCase().replace(/^MINGGU\s*/, '');
+      const rotation = rotationText === 'A' || rotationText === 'B' ? rotationText as WeekRotation : undefined;
+      if (rotationText && !rotation) errors.push(`Minggu "${get('rotation')}" harus A atau B`);
+
+      const ringAtEnd = parseFlag(get('ringAtEnd'), false);
+      const isActive = parseFlag(get('isActive'), true);
+      if (ringAtEnd === null) errors.push(`Bel Selesai "${get('ringAtEnd')}" harus ya/tidak`);
+      if (isActive === null) errors.push(`Aktif "${get('isActive')}" harus ya/tidak`);
+
+      if (errors.length > 0) return { line, item: null, errors };
+      const item: ScheduleItem = {
+        id: Math.random().toString(36).substr(2, 9),
+        type: type!,
+        label: config.hasLabel ? get('label') || config.label : undefined,
+        ringAtEnd: config.canRingAtEnd ? ringAtEnd! : undefined,
+        period,
+        startTime: startTime!,
+        endTime: endTime!,
+        teacher: has('teacher') ? get('teacher') : '',
+        gender: gender!,
+        subject: has('subject') ? get('subject') : '',
+        className: has('className') ? get('className') : '',
+        isActive: isActive!,
+        days: days!,
+        rotation,
+      };
+      const invalid = validateItem(item).filter(problem => problem.severity === 'error');
+      return invalid.length > 0
+        ? { line, item: null, errors: invalid.map(problem => problem.message) }
+        : { line, item, errors };
+    });
+}
+
+export type ImportMode = 'replace' | 'merge';
+export type ImportStatus = 'added' | 'changed' | 'unchanged' | 'removed';
+
+export interface ImportEntry {
+  status: ImportStatus;
+  item: ScheduleItem;
+  previous?: ScheduleItem;
+  line?: number;        // undefined for rows that only exist in the current schedule
+  warnings: string[];
+}
+
+// Rows describing the same bell slot are treated as edits of each other.
+const slotKey = (item: ScheduleItem) => [
+  item.type,
+  item.type === 'lesson' ? item.className.toLowerCase() : (item.label || '').toLowerCase(),
+  item.startTime,
+  [...item.days].sort().join(''),
+  item.rotation || '',
+].join('|');
+
+// Missing optional fields and their empty values (ringAtEnd false, label '') mean the same thing.
+const comparable = (value: unknown) => JSON.stringify(value === false || value === '' || value === undefined ? null : value);
+
+export const getChangedFields = (previous: ScheduleItem, item: ScheduleItem): TimetableField[] =>
+  TIMETABLE_FIELDS.filter(field => comparable(previous[field]) !== comparable(item[field]));
+
+// Replace swaps the whole schedule for the sheet; merge updates matching slots and keeps the rest.
+export function previewImport(current: ScheduleItem[], rows: ImportRow[], mode: ImportMode): ImportEntry[] {
+  const unmatched = new Map(current.map(item => [item.id, item]));
+  const entries: ImportEntry[] = [];
+
+  rows.forEach(({ line, item }) => {
+    if (!item) return;
+    const previous = [...unmatched.values()].find(other => slotKey(other) === slotKey(item));
+    if (!previous) {
+      entries.push({ status: 'added', item, line, warnings: [] });
+      return;
+    }
+    unmatched.delete(previous.id);
+    // Master data ids are dropped so the sheet's names are linked afresh
+    const merged = { ...previous, ...item, id: previous.id, chimeId: previous.chimeId, teacherId: undefined, subjectId: undefined, classId: undefined };
+    entries.push({ status: getChangedFields(previous, merged).length === 0 ? 'unchanged' : 'changed', item: merged, previous, line, warnings: [] });
+  });
+
+  unmatched.forEach(item => entries.push({ status: mode === 'replace' ? 'removed' : 'unchanged', item, warnings: [] }));
+
+  // Clashes are reported, not rejected: some schools deliberately split a class.
+  const problems = validateSchedule(entries.filter(entry => entry.status !== 'removed').map(entry => entry.item));
+  entries
+    .filter(entry => entry.line !== undefined)
+    .forEach(entry => entry.warnings.push(...getItemProblems(problems, entry.item.id).map(problem => problem.message)));
+
+  return entries;
+}
+
+export function applyImport(entries: ImportEntry[]): ScheduleItem[] {
+  return sortItems(entries.filter(entry => entry.status !== 'removed').map(entry => entry.item));
+}
+
+const formatFlag = (value: boolean | undefined) => value ? 'Ya' : 'Tidak';
+
+// Written with the same headers and value formats the importer reads back.
+export function timetableToRows(items: ScheduleItem[]): string[][] {
+  return [
+    TIMETABLE_FIELDS.map(field => TIMETABLE_COLUMNS[field].header),
+    ...sortItems(items).map(item => [
+      BELL_TYPES[item.type].label,
+      item.label || '',
+      item.type === 'lesson' ? String(item.period) : '',
+      item.startTime,
+      item.endTime,
+      item.className,
+      item.subject,
+      item.teacher,
+      item.type === 'lesson' ? item.gender : '',
+      [...item.days].sort((a, b) => a - b).map(day => DAY_LABELS[day]).join(', '),
+      item.rotation || '',
+      formatFlag(item.ringAtEnd),
+      formatFlag(item.isActive),
+    ]),
+  ];
+}
@@ -0,0 +1,84 @@
+import { ScheduleItem } from '../types';
+import { BELL_TYPES } from './bells';
+import { DAY_LABELS } from './schedule';
+
+// Errors make an item unusable (it would ring at the wrong time or not at all);
+// warnings are clashes a school may have on purpose, so they are confirmed, not blocked.
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface ScheduleProblem {
+  itemId: string;
+  severity: ProblemSeverity;
+  message: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const sharedDays = (a: ScheduleItem, b: ScheduleItem) =>
+  (!a.rotation || !b.rotation || a.rotation === b.rotation) ? a.days.filter(day => b.days.includes(day)) : [];
+
+const overlaps = (a: ScheduleItem, b: ScheduleItem) =>
+  sharedDays(a, b).length > 0 && a.startTime < b.endTime && b.startTime < a.endTime;
+
+const formatShared = (a: ScheduleItem, b: ScheduleItem) =>
+  sharedDays(a, b).map(day => DAY_LABELS[day]).join(', ');
+
+export function validateItem(item: ScheduleItem): ScheduleProblem[] {
+  const problems: ScheduleProblem[] = [];
+  const error = (message: string) => problems.push({ itemId: item.id, severity: 'error', message });
+  const fields = BELL_TYPES[item.type].fields;
+
+  if (!TIME_PATTERN.test(item.startTime)) error(`Format jam mulai "${item.startTime}" tidak valid`);
+  if (!TIME_PATTERN.test(item.endTime)) error(`Format jam selesai "${item.endTime}" tidak valid`);
+  else if (item.endTime < item.startTime) error(`Jam selesai ${item.endTime} sebelum jam mulai ${item.startTime}`);
+  if (fields.includes('period') && !(item.period > 0)) error('Jam ke harus lebih dari 0');
+  if (item.days.length === 0) error('Belum ada hari yang dipilih');
+  (['className', 'subject', 'teacher'] as const)
+    .filter(field => fields.includes(field) && !item[field].trim())
+    .forEach(field => error(`${field === 'className' ? 'Kelas' : field === 'subject' ? 'Mata pelajaran' : 'Nama guru'} kosong`));
+  if (item.teacher !== item.teacher.trim() || item.className !== item.className.trim()) {
+    problems.push({ itemId: item.id, severity: 'warning', message: 'Ada spasi berlebih di nama guru atau kelas' });
+  }
+  return problems;
+}
+
+// Only lessons are checked against each other: breaks and prayers are whole-school
+// and meant to coincide with the end of a period. Inactive items never clash.
+export function validateSchedule(items: ScheduleItem[]): ScheduleProblem[] {
+  const problems = items.flatMap(validateItem);
+  const lessons = items.filter(item => item.isActive && item.type === 'lesson' && validateItem(item).every(p => p.severity !== 'error'));
+  const warn = (item: ScheduleItem, message: string) => problems.push({ itemId: item.id, severity: 'warning', message });
+
+  lessons.forEach(item => {
+    lessons.filter(other => other !== item && overlaps(item, other)).forEach(other => {
+      if (sameName(item.className, other.className)) {
+        warn(item, `Kelas ${item.className} bentrok dengan ${other.subject} (${other.startTime}-${other.endTime}, ${formatShared(item, other)})`);
+      } else if (item.teacher.trim() && sameName(item.teacher, other.teacher)) {
+        warn(item, `${item.gender} ${item.teacher.trim()} juga mengajar kelas ${other.className} (${other.startTime}-${other.endTime}, ${formatShared(item, other)})`);
+      }
+    });
+  });
+
+  // Gaps in period numbering, reported on the period right after the gap
+  lessons.filter(item => item.period > 1).forEach(item => {
+    const missing = item.days.filter(day => !lessons.some(other =>
+      sameName(other.className, item.className) && other.period === item.period - 1 && other.days.includes(day)));
+    if (missing.length > 0) {
+      warn(item, `Kelas ${item.className} tidak punya jam ke ${item.period - 1} pada ${missing.map(day => DAY_LABELS[day]).join(', ')}`);
+    }
+  });
+
+  return problems;
+}
+
+export const getItemProblems = (problems: ScheduleProblem[], itemId: string) =>
+  problems.filter(problem => problem.itemId === itemId);
+
+export const hasErrors = (problems: ScheduleProblem[]) => problems.some(problem => problem.severity === 'error');
+
+export function describeProblems(problems: ScheduleProblem[]): string {
+  return problems.map(problem => `${problem.severity === 'error' ? '✕' : '!'} ${problem.message}`).join('\n');
+}
+